@@ -1,18 +1,27 @@
 // src/App.tsx
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import './App.css'
 import { IntroScreen } from './phases/IntroScreen'
 import { BuildScreen } from './phases/BuildScreen'
 import { TutorialScreen } from './phases/TutorialScreen'
 import { ScoringScreen } from './phases/ScoringScreen'
+import { ClusterGameScreen } from './phases/ClusterGameScreen'
 import { computeInitialStar } from './engine/starEngine'
 import type { StarParams } from './engine/starEngine'
+import type { BinaryParams } from './engine/binaryEvolution'
+import type { ClusterDatingResult } from './engine/clusterDating'
+import {
+  ANALYTIC_MODEL,
+  loadTrackGrid,
+  type EvolutionModel,
+} from './engine/tabulatedEvolution'
+import type { TrackGrid } from './engine/trackTables'
 import { SimulationScreen } from './phases/SimulationScreen'
 import './engine/debugProbes'
 
-type Phase = 'intro' | 'tutorial' | 'build' | 'simulation' | 'scoring'
+type Phase = 'intro' | 'tutorial' | 'build' | 'simulation' | 'cluster' | 'scoring'
 
-const phaseOrder: Phase[] = ['intro', 'tutorial', 'build', 'simulation', 'scoring']
+const phaseOrder: Phase[] = ['intro', 'tutorial', 'build', 'simulation', 'cluster', 'scoring']
 
 // ---------- smooth temperature → color helpers ----------
 
@@ -95,6 +104,7 @@ function App() {
     mass: 1.0,
     metallicity: 0.02,
     cnoFraction: 0.3,
+    rotation: 0.0,
   })
 
   function updateParam<K extends keyof StarParams>(key: K, value: number) {
@@ -104,7 +114,68 @@ function App() {
     }))
   }
 
+  // binary mode: a companion star on an orbit of the given separation
+  const [binaryMode, setBinaryMode] = useState(false)
+  const [companion, setCompanion] = useState<StarParams>({
+    mass: 0.8,
+    metallicity: 0.02,
+    cnoFraction: 0.3,
+    rotation: 0.0,
+  })
+  const [separationAU, setSeparationAU] = useState(1.0)
+
+  function updateCompanionParam<K extends keyof StarParams>(key: K, value: number) {
+    setCompanion((prev) => ({
+      ...prev,
+      [key]: value,
+    }))
+  }
+
+  const binary: BinaryParams | undefined = useMemo(
+    () =>
+      binaryMode
+        ? { primary: params, secondary: companion, separationAU }
+        : undefined,
+    [binaryMode, params, companion, separationAU],
+  )
+
+  // evolution model: analytic "classroom" shapes or tabulated tracks
+  const [trackGrid, setTrackGrid] = useState<TrackGrid | null>(null)
+  const [trackErrors, setTrackErrors] = useState<string[]>([])
+  const [useTracks, setUseTracks] = useState(false)
+
+  function loadTracks(files: { name: string; text: string }[]) {
+    const { grid, errors } = loadTrackGrid('Loaded tracks', files)
+    setTrackErrors(errors)
+    if (grid) {
+      setTrackGrid(grid)
+      setUseTracks(true)
+    }
+  }
+
+  function reportTrackError(message: string) {
+    setTrackErrors((prev) => [...prev, message])
+  }
+
+  const evolutionModel: EvolutionModel = useMemo(
+    () =>
+      useTracks && trackGrid
+        ? { kind: 'tabulated', grid: trackGrid }
+        : ANALYTIC_MODEL,
+    [useTracks, trackGrid],
+  )
+
+  // cluster age-dating game: each round gets a fresh hidden cluster
+  const [clusterRound, setClusterRound] = useState(0)
+  const [clusterResult, setClusterResult] = useState<ClusterDatingResult>()
+
+  function startClusterRound() {
+    setClusterRound((n) => n + 1)
+    setPhase('cluster')
+  }
+
   const { sizePx, color, glow, pulseSeconds } = getStarVisuals(params)
+  const companionVisuals = getStarVisuals(companion)
 
   // measure each tab so the capsule centers on the text
   const tabsContainerRef = useRef<HTMLDivElement | null>(null)
@@ -172,6 +243,15 @@ function App() {
             ref={(el) => {
               tabButtonRefs.current[4] = el
             }}
+            className={phase === 'cluster' ? 'tab active' : 'tab'}
+            onClick={() => setPhase('cluster')}
+          >
+            Cluster
+          </button>
+          <button
+            ref={(el) => {
+              tabButtonRefs.current[5] = el
+            }}
             className={phase === 'scoring' ? 'tab active' : 'tab'}
             onClick={() => setPhase('scoring')}
           >
@@ -194,6 +274,17 @@ function App() {
           <BuildScreen
             params={params}
             onChangeParam={updateParam}
+            binary={binary}
+            onToggleBinary={() => setBinaryMode((on) => !on)}
+            onChangeCompanionParam={updateCompanionParam}
+            onChangeSeparation={setSeparationAU}
+            companionVisuals={companionVisuals}
+            trackGrid={trackGrid}
+            trackErrors={trackErrors}
+            evolutionModel={evolutionModel}
+            onToggleTracks={() => setUseTracks((on) => !on)}
+            onLoadTracks={loadTracks}
+            onTrackError={reportTrackError}
             sizePx={sizePx}
             color={color}
             glow={glow}
@@ -205,6 +296,8 @@ function App() {
         {phase === 'simulation' && (
           <SimulationScreen
             params={params}
+            binary={binary}
+            evolutionModel={evolutionModel}
             initialSizePx={sizePx}
             initialColor={color}
             initialGlow={glow}
@@ -212,8 +305,22 @@ function App() {
           />
         )}
 
+        {phase === 'cluster' && (
+          <ClusterGameScreen
+            key={clusterRound}
+            onSubmit={(result) => {
+              setClusterResult(result)
+              setPhase('scoring')
+            }}
+          />
+        )}
+
         {phase === 'scoring' && (
-          <ScoringScreen onRestart={() => setPhase('build')} />
+          <ScoringScreen
+            onRestart={() => setPhase('build')}
+            clusterResult={clusterResult}
+            onPlayCluster={startClusterRound}
+          />
         )}
       </main>
     </div>
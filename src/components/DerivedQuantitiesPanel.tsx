@@ -0,0 +1,93 @@
+// src/components/DerivedQuantitiesPanel.tsx
+import { useState } from "react"
+import type { DerivedQuantities } from "../engine/derivedQuantities"
+
+type DerivedQuantitiesPanelProps = {
+  quantities: DerivedQuantities
+  defaultOpen?: boolean
+}
+
+// ---------- formatting ----------
+
+const SECONDS_PER_YEAR = 3.156e7
+
+function formatNumber(x: number, unit: string): string {
+  if (!Number.isFinite(x)) return "—"
+  const exp = Math.floor(Math.log10(Math.abs(x)))
+  if (exp >= -2 && exp < 5) return `${x.toPrecision(3)} ${unit}`
+  return `${(x / Math.pow(10, exp)).toFixed(2)} × 10^${exp} ${unit}`
+}
+
+// seconds up to years, then kyr / Myr / Gyr
+function formatDuration(seconds: number): string {
+  if (seconds < 120) return `${seconds.toPrecision(3)} s`
+  if (seconds < 2 * 3600) return `${(seconds / 60).toPrecision(3)} min`
+  if (seconds < 2 * 86400) return `${(seconds / 3600).toPrecision(3)} h`
+  const years = seconds / SECONDS_PER_YEAR
+  if (years < 1) return `${(seconds / 86400).toPrecision(3)} d`
+  if (years < 1e3) return `${years.toPrecision(3)} yr`
+  if (years < 1e6) return `${(years / 1e3).toPrecision(3)} kyr`
+  if (years < 1e9) return `${(years / 1e6).toPrecision(3)} Myr`
+  if (years < 1e12) return `${(years / 1e9).toPrecision(3)} Gyr`
+  return formatNumber(years, "yr")
+}
+
+export function DerivedQuantitiesPanel({
+  quantities,
+  defaultOpen = false,
+}: DerivedQuantitiesPanelProps) {
+  const [open, setOpen] = useState(defaultOpen)
+  const {
+    logg,
+    meanDensity,
+    escapeVelocityKms,
+    dynamicalTimeS,
+    thermalTimeYr,
+    nuclearTimeYr,
+  } = quantities
+
+  // water is 1 g/cm³: a useful yardstick for "how dense is it?"
+  const densityNote =
+    meanDensity < 1e-3
+      ? "thinner than air"
+      : meanDensity < 1
+      ? "less dense than water"
+      : meanDensity < 25
+      ? "about as dense as rock or metal"
+      : meanDensity < 1e13
+      ? `a teaspoon weighs ${formatNumber(meanDensity * 5e-3, "kg")}`
+      : meanDensity < 1e15
+      ? "as dense as an atomic nucleus"
+      : "denser than an atomic nucleus"
+
+  return (
+    <div className="derived-quantities">
+      <button className="derived-toggle" onClick={() => setOpen((o) => !o)}>
+        {open ? "▾" : "▸"} Derived quantities
+      </button>
+
+      {open && (
+        <ul className="derived-list">
+          <li>log g: {logg.toFixed(2)} (cgs; Sun 4.44)</li>
+          <li>
+            Mean density: {formatNumber(meanDensity, "g/cm³")} — {densityNote}
+          </li>
+          <li>Escape velocity: {formatNumber(escapeVelocityKms, "km/s")}</li>
+          <li>Dynamical time: {formatDuration(dynamicalTimeS)}</li>
+          <li>
+            Thermal (Kelvin–Helmholtz) time:{" "}
+            {thermalTimeYr === null
+              ? "— (does not shine)"
+              : formatDuration(thermalTimeYr * SECONDS_PER_YEAR)}
+          </li>
+          <li>
+            Nuclear time:{" "}
+            {nuclearTimeYr === null
+              ? "— (no fusion)"
+              : formatDuration(nuclearTimeYr * SECONDS_PER_YEAR)}
+          </li>
+        </ul>
+      )}
+    </div>
+  )
+}
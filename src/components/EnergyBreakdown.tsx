@@ -0,0 +1,70 @@
+// src/components/EnergyBreakdown.tsx
+import type { EnergyGeneration } from "../engine/nuclearBurning"
+
+type EnergyBreakdownProps = {
+  burning: EnergyGeneration | null // null → no hydrogen fusion (brown dwarf)
+}
+
+const CHANNEL_COLORS = {
+  pp: "#ffcf5b",
+  cno: "#5bb8ff",
+}
+
+export function EnergyBreakdown({ burning }: EnergyBreakdownProps) {
+  // DONUT SIZE
+  const size = 76
+  const radius = 28
+  const stroke = 12
+  const circumference = 2 * Math.PI * radius
+
+  if (!burning) {
+    return (
+      <div className="energy-breakdown">
+        <div className="energy-caption">No hydrogen fusion — a brown dwarf only contracts</div>
+      </div>
+    )
+  }
+
+  const { ppFraction, cnoFraction, T_c, rho_c } = burning
+  const cnoArc = cnoFraction * circumference
+
+  return (
+    <div className="energy-breakdown">
+      <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+        {/* pp chain: the full ring, CNO drawn over it from 12 o'clock */}
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={CHANNEL_COLORS.pp}
+          strokeWidth={stroke}
+        />
+        <circle
+          className="energy-arc"
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={CHANNEL_COLORS.cno}
+          strokeWidth={stroke}
+          strokeDasharray={`${cnoArc} ${circumference}`}
+          transform={`rotate(-90 ${size / 2} ${size / 2})`}
+        />
+      </svg>
+
+      <div className="energy-legend">
+        <span style={{ color: CHANNEL_COLORS.pp }}>
+          ● pp chain {(ppFraction * 100).toFixed(ppFraction < 0.1 ? 1 : 0)}%
+        </span>
+        <span style={{ color: CHANNEL_COLORS.cno }}>
+          ● CNO cycle {(cnoFraction * 100).toFixed(cnoFraction < 0.1 ? 1 : 0)}%
+        </span>
+        <span className="energy-caption">
+          T<sub>c</sub> ≈ {(T_c / 1e6).toFixed(1)} MK · ρ<sub>c</sub> ≈{" "}
+          {rho_c.toPrecision(2)} g/cm³
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,132 @@
 // src/components/HRDiagram.tsx
+import { useState } from "react"
+import type { RemnantKind } from "../engine/starEvolutionEngine"
+import {
+  absoluteMagnitude,
+  colorBPRP,
+  colorBV,
+} from "../engine/photometry"
+
+// logg (cgs) is only needed for the Kiel diagram
+type HRPoint = { logT: number; logL: number; logg?: number; isCollapse?: boolean }
+
+// What the axes show: the theorist's HR diagram, an observer's
+// colour–magnitude diagram in Johnson (B−V, M_V) or Gaia (BP−RP, M_G),
+// or the spectroscopist's Kiel diagram (log g vs T_eff)
+export type HRDiagramMode = "hr" | "cmdBV" | "cmdGaia" | "kiel"
+
+// Plot-space coordinates: u grows to the right, v grows upwards
+type PlotPoint = { u: number; v: number }
+
+const MODE_AXES: Record<
+  HRDiagramMode,
+  {
+    button: string
+    buttonX: number // position in the mode switch
+    xLabel: string
+    yLabel: string
+    minUSpan: number // smallest zoom window
+    minVSpan: number
+    baseU: [number, number] // always-covered range
+    baseV: [number, number]
+  }
+> = {
+  hr: {
+    button: "HR",
+    buttonX: -20,
+    xLabel: "log T (K)",
+    yLabel: "log L / L☉",
+    minUSpan: 0.2,
+    minVSpan: 1.0,
+    baseU: [-4.7, -3.5],
+    baseV: [-4, 6],
+  },
+  cmdBV: {
+    button: "B−V",
+    buttonX: 2,
+    xLabel: "B − V",
+    yLabel: "M_V",
+    minUSpan: 0.3,
+    minVSpan: 2.5,
+    baseU: [-0.35, 1.8],
+    baseV: [-10, 15],
+  },
+  cmdGaia: {
+    button: "Gaia",
+    buttonX: 30,
+    xLabel: "BP − RP",
+    yLabel: "M_G",
+    minUSpan: 0.4,
+    minVSpan: 2.5,
+    baseU: [-0.8, 2.5],
+    baseV: [-10, 14],
+  },
+  kiel: {
+    button: "Kiel",
+    buttonX: 60,
+    xLabel: "log T (K)",
+    yLabel: "log g (cgs)",
+    minUSpan: 0.2,
+    minVSpan: 0.5,
+    baseU: [-4.7, -3.5],
+    baseV: [-5.2, -0.5],
+  },
+}
 
-type HRPoint = { logT: number; logL: number; isCollapse?: boolean }
+// Main-sequence gravity for a point that doesn't carry one: mass from
+// L ∝ M^3.5, radius from L and T
+const LOG_T_SUN = Math.log10(5772)
+function mainSequenceLogg(p: HRPoint): number {
+  const logM = p.logL / 3.5
+  const logR = 0.5 * p.logL - 2 * (p.logT - LOG_T_SUN)
+  return 4.438 + logM - 2 * logR
+}
+
+// Cold brown dwarfs have almost no optical flux left, so their colours
+// and magnitudes run off to B−V ≈ 17 and M_V ≈ 90 at a few hundred K.
+// The colour–magnitude diagrams pin them to a red / faint edge just past
+// the late M and L dwarfs, so they don't stretch the axes.
+const CMD_LIMITS: Record<"cmdBV" | "cmdGaia", { maxColor: number; maxMag: number }> = {
+  cmdBV: { maxColor: 3, maxMag: 20 },
+  cmdGaia: { maxColor: 4.5, maxMag: 18 },
+}
+
+// HR point → plot space for the chosen mode. Hotter is left in all four;
+// brighter is up in the HR and colour–magnitude diagrams, lower gravity
+// (bigger star) is up in the Kiel diagram: u = −log T or a colour,
+// v = log L, −M or −log g.
+function toPlot(p: HRPoint, mode: HRDiagramMode): PlotPoint {
+  if (mode === "hr") return { u: -p.logT, v: p.logL }
+  if (mode === "kiel") return { u: -p.logT, v: -(p.logg ?? mainSequenceLogg(p)) }
+  const T = Math.pow(10, p.logT)
+  const { maxColor, maxMag } = CMD_LIMITS[mode]
+  const color = mode === "cmdBV" ? colorBV(T) : colorBPRP(T)
+  const mag = absoluteMagnitude(mode === "cmdBV" ? "V" : "G", T, p.logL)
+  return { u: Math.min(color, maxColor), v: -Math.min(mag, maxMag) }
+}
+
+// Tick label for a plot-space value
+function xTickLabel(u: number, mode: HRDiagramMode): string {
+  return (mode === "hr" || mode === "kiel" ? -u : u).toFixed(1)
+}
+
+function yTickLabel(v: number, mode: HRDiagramMode): string {
+  return (mode === "hr" ? v : -v).toFixed(1)
+}
 
 type HRDiagramProps = {
   current?: HRPoint         // current star position
   track?: HRPoint[]         // trail for simulation (optional)
   disableStarZoom?: boolean // when true, stay zoomed-out on global ranges
-  remnant?: "wd" | "ns" | "bh" // optional: final fate to style marker
+  remnant?: RemnantKind     // optional: final fate to style marker
   fracTotal?: number        // 0–1 along total lifetime
   hasFinished?: boolean     // true once simulation is done
+  companion?: HRPoint       // binary mode: the other star
+  companionTrack?: HRPoint[] // binary mode: the other star's trail
+  spectralLabel?: string     // MK class of the current star, e.g. "G2 V"
+  companionSpectralLabel?: string
+  population?: HRPoint[]     // star cluster: replaces the reference main sequence
+  isochrone?: HRPoint[]      // model isochrone, drawn as a curve in mass order
 }
 
 export function HRDiagram({
@@ -18,20 +136,30 @@ export function HRDiagram({
   remnant,
   fracTotal,
   hasFinished,
+  companion,
+  companionTrack,
+  spectralLabel,
+  companionSpectralLabel,
+  population,
+  isochrone,
 }: HRDiagramProps) {
+  const [mode, setMode] = useState<HRDiagramMode>("hr")
+  const axes = MODE_AXES[mode]
+
   // DIAGRAM SIZE (inside the 500×300 bubble)
   const width = 460
   const height = 280
 
-  // Base HR backbone (in log space)
-  const mainSequenceBackbone: HRPoint[] = [
-    { logT: 4.7,  logL: 5.5 },
-    { logT: 4.5,  logL: 3.0 },
-    { logT: 4.3,  logL: 1.2 },
-    { logT: 4.1,  logL: 0.3 },
-    { logT: 3.9,  logL: -0.5 },
-    { logT: 3.7,  logL: -1.5 },
-    { logT: 3.55, logL: -2.5 },
+  // Base HR backbone (in log space), with main-sequence gravities for
+  // the Kiel band (O stars ~4.0 up to M dwarfs ~4.9)
+  const mainSequenceBackbone: (HRPoint & { logg: number })[] = [
+    { logT: 4.7,  logL: 5.5,  logg: 3.95 },
+    { logT: 4.5,  logL: 3.0,  logg: 4.0 },
+    { logT: 4.3,  logL: 1.2,  logg: 4.1 },
+    { logT: 4.1,  logL: 0.3,  logg: 4.2 },
+    { logT: 3.9,  logL: -0.5, logg: 4.3 },
+    { logT: 3.7,  logL: -1.5, logg: 4.55 },
+    { logT: 3.55, logL: -2.5, logg: 4.85 },
   ]
 
   // ---------- helper: deterministic pseudo-random (stable across renders) ----------
@@ -48,7 +176,7 @@ export function HRDiagram({
   function sampleMainSequence(t: number): HRPoint {
     const pts = mainSequenceBackbone
     const n = pts.length
-    if (n === 0) return { logT: 4, logL: 0 }
+    if (n === 0) return { logT: 4, logL: 0, logg: 4.4 }
 
     const totalSeg = n - 1
     const u = Math.min(Math.max(t, 0), 1) * totalSeg
@@ -61,6 +189,7 @@ export function HRDiagram({
     return {
       logT: lerp(p0.logT, p1.logT, local),
       logL: lerp(p0.logL, p1.logL, local),
+      logg: lerp(p0.logg, p1.logg, local),
     }
   }
 
@@ -91,6 +220,8 @@ export function HRDiagram({
         cloud.push({
           logT: base.logT + dT,
           logL: base.logL + dL,
+          // brighter at the same T ⇒ bigger ⇒ lower gravity
+          logg: (base.logg ?? 4.4) - 0.25 * dL,
         })
       }
       indexOffset += count
@@ -108,70 +239,80 @@ export function HRDiagram({
     return cloud
   }
 
-  const mainSequenceCloud = buildMainSequenceCloud()
+  // a cluster brings its own main sequence
+  const mainSequenceCloud =
+    population && population.length > 0 ? [] : buildMainSequenceCloud()
+  const clusterPoints = population ?? []
+
+  // Points belonging to the star itself (track, or just the current point)
+  // — in binary mode, to both stars
+  const starPoints: HRPoint[] = [
+    ...(track && track.length > 0 ? track : current ? [current] : []),
+    ...(companionTrack && companionTrack.length > 0
+      ? companionTrack
+      : companion
+      ? [companion]
+      : []),
+  ]
 
   // --- Global base ranges: always cover full main sequence cloud ---
+  // (and stretch for brown dwarfs / very massive stars off its ends;
+  // the CMDs cap how far, see CMD_LIMITS)
 
-  let baseTMin = Math.min(3.5, ...mainSequenceCloud.map(p => p.logT))
-  let baseTMax = Math.max(4.7, ...mainSequenceCloud.map(p => p.logT))
-  let baseLMin = Math.min(-4, ...mainSequenceCloud.map(p => p.logL))
-  let baseLMax = Math.max(6,  ...mainSequenceCloud.map(p => p.logL))
+  const coveredPoints = [...mainSequenceCloud, ...clusterPoints, ...starPoints].map((p) =>
+    toPlot(p, mode),
+  )
+  let baseUMin = Math.min(axes.baseU[0], ...coveredPoints.map(p => p.u))
+  let baseUMax = Math.max(axes.baseU[1], ...coveredPoints.map(p => p.u))
+  let baseVMin = Math.min(axes.baseV[0], ...coveredPoints.map(p => p.v))
+  let baseVMax = Math.max(axes.baseV[1], ...coveredPoints.map(p => p.v))
 
-  const baseTSpan = baseTMax - baseTMin || 1
-  const baseLSpan = baseLMax - baseLMin || 1
+  const baseUSpan = baseUMax - baseUMin || 1
+  const baseVSpan = baseVMax - baseVMin || 1
 
   // slight padding so things aren’t glued to the edges
-  baseTMin -= 0.05 * baseTSpan
-  baseTMax += 0.05 * baseTSpan
-  baseLMin -= 0.10 * baseLSpan
-  baseLMax += 0.05 * baseLSpan
+  baseUMin -= 0.05 * baseUSpan
+  baseUMax += 0.05 * baseUSpan
+  baseVMin -= 0.10 * baseVSpan
+  baseVMax += 0.05 * baseVSpan
 
   // Now compute a tighter "star" range from the track/current alone
-  const starPoints: HRPoint[] =
-    track && track.length > 0
-      ? track
-      : current
-      ? [current]
-      : []
-
-  let T_MIN = baseTMin
-  let T_MAX = baseTMax
-  let L_MIN = baseLMin
-  let L_MAX = baseLMax
+  let U_MIN = baseUMin
+  let U_MAX = baseUMax
+  let V_MIN = baseVMin
+  let V_MAX = baseVMax
 
   // only do the zoomy stuff if we are NOT explicitly told to stay global
   if (starPoints.length > 0 && !disableStarZoom) {
-    const tVals = starPoints.map((p) => p.logT)
-    const lVals = starPoints.map((p) => p.logL)
+    const starPlot = starPoints.map((p) => toPlot(p, mode))
+    const uVals = starPlot.map((p) => p.u)
+    const vVals = starPlot.map((p) => p.v)
 
-    let starTMin = Math.min(...tVals)
-    let starTMax = Math.max(...tVals)
-    let starLMin = Math.min(...lVals)
-    let starLMax = Math.max(...lVals)
+    let starUMin = Math.min(...uVals)
+    let starUMax = Math.max(...uVals)
+    let starVMin = Math.min(...vVals)
+    let starVMax = Math.max(...vVals)
 
     // Ensure a minimum window so we never zoom to a single pixel
-    const minTSpan = 0.20
-    const minLSpan = 1.0
-
-    let starTSpan = Math.max(starTMax - starTMin, minTSpan)
-    let starLSpan = Math.max(starLMax - starLMin, minLSpan)
+    const starUSpan = Math.max(starUMax - starUMin, axes.minUSpan)
+    const starVSpan = Math.max(starVMax - starVMin, axes.minVSpan)
 
-    const starTCenter = 0.5 * (starTMin + starTMax)
-    const starLCenter = 0.5 * (starLMin + starLMax)
+    const starUCenter = 0.5 * (starUMin + starUMax)
+    const starVCenter = 0.5 * (starVMin + starVMax)
 
-    starTMin = starTCenter - starTSpan / 2
-    starTMax = starTCenter + starTSpan / 2
-    starLMin = starLCenter - starLSpan / 2
-    starLMax = starLCenter + starLSpan / 2
+    starUMin = starUCenter - starUSpan / 2
+    starUMax = starUCenter + starUSpan / 2
+    starVMin = starVCenter - starVSpan / 2
+    starVMax = starVCenter + starVSpan / 2
 
-    const globalTSpan = baseTMax - baseTMin || 1
-    const globalLSpan = baseLMax - baseLMin || 1
+    const globalUSpan = baseUMax - baseUMin || 1
+    const globalVSpan = baseVMax - baseVMin || 1
 
     const spanRatio = Math.min(
       1,
       Math.max(
         0,
-        Math.max(starTSpan / globalTSpan, starLSpan / globalLSpan),
+        Math.max(starUSpan / globalUSpan, starVSpan / globalVSpan),
       ),
     )
 
@@ -204,10 +345,10 @@ export function HRDiagram({
       effectiveZoom = zoomStrengthBase * edgeFactor
     }
 
-    T_MIN = baseTMin * (1 - effectiveZoom) + starTMin * effectiveZoom
-    T_MAX = baseTMax * (1 - effectiveZoom) + starTMax * effectiveZoom
-    L_MIN = baseLMin * (1 - effectiveZoom) + starLMin * effectiveZoom
-    L_MAX = baseLMax * (1 - effectiveZoom) + starLMax * effectiveZoom
+    U_MIN = baseUMin * (1 - effectiveZoom) + starUMin * effectiveZoom
+    U_MAX = baseUMax * (1 - effectiveZoom) + starUMax * effectiveZoom
+    V_MIN = baseVMin * (1 - effectiveZoom) + starVMin * effectiveZoom
+    V_MAX = baseVMax * (1 - effectiveZoom) + starVMax * effectiveZoom
   }
 
   // Layout inside the SVG
@@ -226,27 +367,22 @@ export function HRDiagram({
   const legendX = width - 90
   const legendY = paddingTop + 60
 
-  function mapPoint(p: HRPoint) {
-    const { logT, logL } = p
-    const tClamped = Math.min(Math.max(logT, T_MIN), T_MAX)
-    const lClamped = Math.min(Math.max(logL, L_MIN), L_MAX)
+  function mapPlot({ u, v }: PlotPoint) {
+    const uClamped = Math.min(Math.max(u, U_MIN), U_MAX)
+    const vClamped = Math.min(Math.max(v, V_MIN), V_MAX)
 
-    const tNorm = (tClamped - T_MIN) / (T_MAX - T_MIN)
-    const lNorm = (lClamped - L_MIN) / (L_MAX - L_MIN)
+    const uNorm = (uClamped - U_MIN) / (U_MAX - U_MIN)
+    const vNorm = (vClamped - V_MIN) / (V_MAX - V_MIN)
 
-    const x = paddingLeft + (1 - tNorm) * plotWidth + xOffset // hotter → left
-    const y = paddingTop + (1 - lNorm) * plotHeight           // brighter → top
+    const x = paddingLeft + uNorm * plotWidth + xOffset // hotter / bluer → left
+    const y = paddingTop + (1 - vNorm) * plotHeight     // brighter → top
 
     return { x, y }
   }
-  
-
-
-
-
-
-
 
+  function mapPoint(p: HRPoint) {
+    return mapPlot(toPlot(p, mode))
+  }
 
   // --- split track into solid part + dashed collapse polyline ---
   let solidTrackPoints: HRPoint[] | undefined
@@ -309,13 +445,34 @@ export function HRDiagram({
       : undefined
 
   const currentPos = current ? mapPoint(current) : undefined
+  const companionPos = companion ? mapPoint(companion) : undefined
+
+  const isochronePath =
+    isochrone && isochrone.length > 1
+      ? isochrone
+          .map(pt => {
+            const { x, y } = mapPoint(pt)
+            return `${x},${y}`
+          })
+          .join(" ")
+      : undefined
+
+  const companionTrackPath =
+    companionTrack && companionTrack.length > 1
+      ? companionTrack
+          .map(pt => {
+            const { x, y } = mapPoint(pt)
+            return `${x},${y}`
+          })
+          .join(" ")
+      : undefined
 
   // Generate dynamic tick arrays based on computed ranges
-  const L_TICKS = Array.from({ length: 6 }, (_, i) =>
-    L_MIN + ((L_MAX - L_MIN) * i) / 5,
+  const V_TICKS = Array.from({ length: 6 }, (_, i) =>
+    V_MIN + ((V_MAX - V_MIN) * i) / 5,
   )
-  const T_TICKS = Array.from({ length: 6 }, (_, i) =>
-    T_MIN + ((T_MAX - T_MIN) * i) / 5,
+  const U_TICKS = Array.from({ length: 6 }, (_, i) =>
+    U_MIN + ((U_MAX - U_MIN) * i) / 5,
   )
 
   // --- remnant-aware marker style for the current star ---
@@ -350,6 +507,26 @@ export function HRDiagram({
         innerStroke: "#bb86fc",
       }
     }
+    if (remnant === "none") {
+      // pair-instability debris: hollow orange ring
+      return {
+        outerR: 8,
+        innerR: 2,
+        outerStroke: "#ff9e5b",
+        innerFill: "rgba(0,0,0,0)",
+        innerStroke: "#ff9e5b",
+      }
+    }
+    if (remnant === "bd") {
+      // brown dwarf: small, dull red-brown point
+      return {
+        outerR: 5.5,
+        innerR: 3,
+        outerStroke: "#b5654a",
+        innerFill: "#6b3a2a",
+        innerStroke: "#b5654a",
+      }
+    }
     // default: original styling via CSS variables
     return {
       outerR: 7,
@@ -368,6 +545,10 @@ export function HRDiagram({
       ? "Neutron star"
       : remnant === "bh"
       ? "Black hole"
+      : remnant === "none"
+      ? "No remnant"
+      : remnant === "bd"
+      ? "Brown dwarf"
       : "Your star"
 
   const legendMarkerStyle = (() => {
@@ -399,6 +580,24 @@ export function HRDiagram({
         innerStroke: "#bb86fc",
       }
     }
+    if (remnant === "none") {
+      return {
+        outerR: 8.5,
+        innerR: 2.2,
+        outerStroke: "#ff9e5b",
+        innerFill: "rgba(0,0,0,0)",
+        innerStroke: "#ff9e5b",
+      }
+    }
+    if (remnant === "bd") {
+      return {
+        outerR: 6.5,
+        innerR: 3.4,
+        outerStroke: "#b5654a",
+        innerFill: "#6b3a2a",
+        innerStroke: "#b5654a",
+      }
+    }
     return {
       outerR: 7,
       innerR: 3.5,
@@ -408,9 +607,10 @@ export function HRDiagram({
     }
   })()
 
-  // --- fade-out opacity for the current marker (BH only) ---
+  // --- fade-out opacity for the current marker (BH / no remnant) ---
+  const fadesOut = remnant === "bh" || remnant === "none"
   let markerOpacity = 1
-  if (remnant === "bh" && typeof fracTotal === "number") {
+  if (fadesOut && typeof fracTotal === "number") {
     const fadeStart = 0.97  // start fading at 97% of lifetime
     const fadeEnd = 1.0
     const f = Math.min(
@@ -420,7 +620,7 @@ export function HRDiagram({
     markerOpacity = 1 - f
   }
 
-  if (hasFinished && remnant === "bh") {
+  if (hasFinished && fadesOut) {
     markerOpacity = 0
   }
 
@@ -447,11 +647,11 @@ export function HRDiagram({
         </defs>
 
         {/* Grid + axes */}
-        {/* Horizontal (L) grid + labels */}
-        {L_TICKS.map(L => {
-          const { y } = mapPoint({ logT: T_MIN, logL: L })
+        {/* Horizontal (L / magnitude) grid + labels */}
+        {V_TICKS.map(v => {
+          const { y } = mapPlot({ u: U_MIN, v })
           return (
-            <g key={`L-${L}`}>
+            <g key={`V-${v}`}>
               <line
                 x1={paddingLeft + xOffset}
                 x2={paddingLeft + plotWidth + xOffset}
@@ -467,17 +667,17 @@ export function HRDiagram({
                 fontSize={12}
                 fill="var(--hr-axis-text)"
               >
-                {L.toFixed(1)}
+                {yTickLabel(v, mode)}
               </text>
             </g>
           )
         })}
 
-        {/* Vertical (T) grid + labels */}
-        {T_TICKS.map(T => {
-          const { x } = mapPoint({ logT: T, logL: L_MIN })
+        {/* Vertical (T / colour) grid + labels */}
+        {U_TICKS.map(u => {
+          const { x } = mapPlot({ u, v: V_MIN })
           return (
-            <g key={`T-${T}`}>
+            <g key={`U-${u}`}>
               <line
                 x1={x}
                 x2={x}
@@ -493,7 +693,7 @@ export function HRDiagram({
                 fontSize={12}
                 fill="var(--hr-axis-text)"
               >
-                {T.toFixed(1)}
+                {xTickLabel(u, mode)}
               </text>
             </g>
           )
@@ -511,7 +711,7 @@ export function HRDiagram({
             paddingTop + plotHeight / 2
           })`}
         >
-          log L / L☉
+          {axes.yLabel}
         </text>
 
         <text
@@ -522,7 +722,7 @@ export function HRDiagram({
           fontWeight="bold"
           fill="var(--hr-axis-text)"
         >
-          log T (K)
+          {axes.xLabel}
         </text>
 
         {/* Everything inside the plot area */}
@@ -542,6 +742,36 @@ export function HRDiagram({
             )
           })}
 
+          {/* Cluster members; white dwarfs (log g ≳ 7) in their own colour */}
+          {clusterPoints.map((pt, idx) => {
+            const { x, y } = mapPoint(pt)
+            return (
+              <circle
+                key={`cluster-${idx}`}
+                cx={x}
+                cy={y}
+                r={2}
+                fill={
+                  (pt.logg ?? 0) > 7 ? "var(--hr-cluster-wd)" : "var(--hr-cluster-star)"
+                }
+                opacity={0.9}
+              />
+            )
+          })}
+
+          {/* Isochrone overlay */}
+          {isochronePath && (
+            <polyline
+              points={isochronePath}
+              fill="none"
+              stroke="var(--hr-isochrone)"
+              strokeWidth={1.8}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              opacity={0.9}
+            />
+          )}
+
           {/* Solid evolution track */}
           {solidTrackPath && (
             <polyline
@@ -567,6 +797,40 @@ export function HRDiagram({
             />
           )}
 
+          {/* Binary companion: its own trail + marker */}
+          {companionTrackPath && (
+            <polyline
+              points={companionTrackPath}
+              fill="none"
+              stroke="#6fd6c4"
+              strokeWidth={1.4}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              opacity={0.85}
+            />
+          )}
+
+          {companionPos && (
+            <>
+              <circle
+                cx={companionPos.x}
+                cy={companionPos.y}
+                r={6}
+                fill="rgba(0,0,0,0)"
+                stroke="#6fd6c4"
+                strokeWidth={2}
+              />
+              <circle
+                cx={companionPos.x}
+                cy={companionPos.y}
+                r={2.6}
+                fill="#d9fff8"
+                stroke="#6fd6c4"
+                strokeWidth={1}
+              />
+            </>
+          )}
+
           {/* Current star point */}
           {currentPos && markerOpacity > 0 && (
             <>
@@ -614,7 +878,7 @@ export function HRDiagram({
                   cx={baseX + jx}
                   cy={jy}
                   r={1.8}
-                  fill="var(--hr-main-seq)"
+                  fill={clusterPoints.length > 0 ? "var(--hr-cluster-star)" : "var(--hr-main-seq)"}
                 />
               )
             })}
@@ -626,43 +890,134 @@ export function HRDiagram({
               fill="var(--hr-legend-text)"
               textAnchor="start"
             >
-              Main sequence
+              {clusterPoints.length > 0 ? `Cluster (${clusterPoints.length})` : "Main sequence"}
             </text>
           </g>
 
           {/* Current star / remnant */}
-          <g transform="translate(0, 80)">
-            <circle
-              cx={12}
-              cy={0}
-              r={legendMarkerStyle.outerR}
-              fill="rgba(0,0,0,0)"
-              stroke={legendMarkerStyle.outerStroke}
-              strokeWidth={2}
-            />
-            <circle
-              cx={12}
-              cy={0}
-              r={legendMarkerStyle.innerR}
-              fill={legendMarkerStyle.innerFill}
-              stroke={legendMarkerStyle.innerStroke}
-              strokeWidth={1}
-            />
-            <text
-              x={-5}
-              y={30}
-              fontSize={14}
-              fill="var(--hr-legend-text)"
-              textAnchor="start"
-            >
-              {legendLabel}
-            </text>
-          </g>
+          {current && (
+            <g transform="translate(0, 80)">
+              <circle
+                cx={12}
+                cy={0}
+                r={legendMarkerStyle.outerR}
+                fill="rgba(0,0,0,0)"
+                stroke={legendMarkerStyle.outerStroke}
+                strokeWidth={2}
+              />
+              <circle
+                cx={12}
+                cy={0}
+                r={legendMarkerStyle.innerR}
+                fill={legendMarkerStyle.innerFill}
+                stroke={legendMarkerStyle.innerStroke}
+                strokeWidth={1}
+              />
+              <text
+                x={-5}
+                y={30}
+                fontSize={14}
+                fill="var(--hr-legend-text)"
+                textAnchor="start"
+              >
+                {legendLabel}
+              </text>
+              {spectralLabel && (
+                <text
+                  x={-5}
+                  y={46}
+                  fontSize={12}
+                  fill="var(--hr-legend-text)"
+                  textAnchor="start"
+                >
+                  {spectralLabel}
+                </text>
+              )}
+            </g>
+          )}
 
+          {/* Isochrone: below the star entries */}
+          {isochronePath && (
+            <g transform={`translate(0, ${current ? (companion ? 200 : 140) : 80})`}>
+              <line x1={0} x2={26} y1={0} y2={0} stroke="var(--hr-isochrone)" strokeWidth={2} />
+              <text
+                x={-5}
+                y={22}
+                fontSize={14}
+                fill="var(--hr-legend-text)"
+                textAnchor="start"
+              >
+                Isochrone
+              </text>
+            </g>
+          )}
+
+          {/* Binary companion */}
+          {companion && (
+            <g transform="translate(0, 140)">
+              <circle
+                cx={12}
+                cy={0}
+                r={6.5}
+                fill="rgba(0,0,0,0)"
+                stroke="#6fd6c4"
+                strokeWidth={2}
+              />
+              <circle
+                cx={12}
+                cy={0}
+                r={2.8}
+                fill="#d9fff8"
+                stroke="#6fd6c4"
+                strokeWidth={1}
+              />
+              <text
+                x={-5}
+                y={30}
+                fontSize={14}
+                fill="var(--hr-legend-text)"
+                textAnchor="start"
+              >
+                Companion
+              </text>
+              {companionSpectralLabel && (
+                <text
+                  x={-5}
+                  y={46}
+                  fontSize={12}
+                  fill="var(--hr-legend-text)"
+                  textAnchor="start"
+                >
+                  {companionSpectralLabel}
+                </text>
+              )}
+            </g>
+          )}
 
 
 
 
+
+        </g>
+
+        {/* Axis mode switch – HR ↔ colour–magnitude ↔ Kiel */}
+        <g transform={`translate(${legendX}, ${paddingTop + 12})`}>
+          {(Object.keys(MODE_AXES) as HRDiagramMode[]).map((m) => (
+            <text
+              key={m}
+              x={MODE_AXES[m].buttonX}
+              y={0}
+              fontSize={12}
+              fontWeight={m === mode ? "bold" : "normal"}
+              fill="var(--hr-legend-text)"
+              opacity={m === mode ? 1 : 0.6}
+              textAnchor="start"
+              style={{ cursor: "pointer" }}
+              onClick={() => setMode(m)}
+            >
+              {MODE_AXES[m].button}
+            </text>
+          ))}
         </g>
       </svg>
     </div>
@@ -0,0 +1,93 @@
+// src/components/Simulation/CompositionGauge.tsx
+import type {
+  BurningStage,
+  CompositionState,
+} from "../../engine/composition"
+
+type CompositionGaugeProps = {
+  composition: CompositionState
+  M: number // current total mass, M☉
+}
+
+const BURNING_LABELS: Record<BurningStage, string> = {
+  contraction: "Contracting — no fusion yet",
+  coreH: "Core hydrogen burning",
+  shellH: "Hydrogen shell around an inert He core",
+  coreHe: "Core helium burning",
+  shellHe: "Shell burning around an inert C/O core",
+  none: "No fusion",
+}
+
+// Core composition, centre outwards in the nuclear sequence
+const CORE_SEGMENTS: {
+  key: keyof CompositionState["core"]
+  label: string
+  color: string
+}[] = [
+  { key: "X", label: "H", color: "#ffcf5b" },
+  { key: "Y", label: "He", color: "#ff8a5b" },
+  { key: "C", label: "C", color: "#9b8cff" },
+  { key: "O", label: "O", color: "#5bb8ff" },
+  { key: "metals", label: "Metals", color: "#8a8d99" },
+]
+
+export function CompositionGauge({ composition, M }: CompositionGaugeProps) {
+  const { core, surface, fuel, burning, heCoreMass, coCoreMass } = composition
+
+  const fuelLabel =
+    fuel.element === null
+      ? "Core fuel: spent"
+      : burning === "shellH"
+      ? "Core helium: waiting to ignite"
+      : `Core ${fuel.element === "H" ? "hydrogen" : "helium"}: ${Math.round(
+          fuel.remaining * 100,
+        )}% left`
+
+  return (
+    <div className="composition-gauge">
+      <div className="composition-caption">{BURNING_LABELS[burning]}</div>
+
+      {/* fuel gauge */}
+      <div className="composition-bar">
+        <div
+          className={`composition-fuel-fill ${
+            fuel.element === "He" ? "is-helium" : ""
+          }`}
+          style={{ width: `${fuel.remaining * 100}%` }}
+        />
+      </div>
+      <div className="composition-caption">{fuelLabel}</div>
+
+      {/* what the centre is made of */}
+      <div className="composition-bar">
+        {CORE_SEGMENTS.map(({ key, label, color }) =>
+          core[key] > 0.005 ? (
+            <div
+              key={key}
+              className="composition-segment"
+              style={{ width: `${core[key] * 100}%`, background: color }}
+              title={`${label} ${(core[key] * 100).toFixed(0)}%`}
+            />
+          ) : null,
+        )}
+      </div>
+      <div className="composition-caption">
+        Core:{" "}
+        {CORE_SEGMENTS.filter(({ key }) => core[key] >= 0.01)
+          .map(({ key, label }) => `${label} ${(core[key] * 100).toFixed(0)}%`)
+          .join(" · ")}
+        {heCoreMass > 0 &&
+          ` — He core ${heCoreMass.toFixed(2)} M☉ (${Math.round(
+            (heCoreMass / Math.max(M, 1e-3)) * 100,
+          )}%)`}
+        {coCoreMass > 0 && `, C/O core ${coCoreMass.toFixed(2)} M☉`}
+      </div>
+
+      <div className="composition-caption">
+        Surface: X = {surface.X.toFixed(2)}, Y = {surface.Y.toFixed(2)}, C/N ={" "}
+        {surface.CtoN.toPrecision(2)}, C/O = {surface.CtoO.toFixed(2)}
+        {surface.CtoO > 1 && " (carbon star)"}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,44 @@
 // src/components/Simulation/SimulationRunner.tsx
-import { useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import type { StarParams } from "../../engine/starEngine"
-import { computeEvolutionTimeline } from "../../engine/starEvolutionEngine"
-import { getStarStateAtTime } from "../../engine/starEvolutionCurves"
+import type { RemnantKind } from "../../engine/starEvolutionEngine"
+import {
+  computeModelTimeline,
+  type EvolutionModel,
+} from "../../engine/tabulatedEvolution"
+import { FATE_LABELS } from "../../engine/remnants"
+import { oblateness, rotationAtRadius } from "../../engine/rotation"
+import {
+  getEvolutionEvents,
+  getStarStateAtTime,
+  type StarEvolutionState,
+} from "../../engine/starEvolutionCurves"
+import {
+  BINARY_OUTCOME_LABELS,
+  computeBinaryEvolution,
+  getBinaryStateAtTime,
+  type BinaryParams,
+} from "../../engine/binaryEvolution"
+import { classifyStar } from "../../engine/spectralClass"
+import { classifyPulsation } from "../../engine/pulsation"
+import {
+  derivedQuantities,
+  logSurfaceGravity,
+  remnantRadius,
+} from "../../engine/derivedQuantities"
 import { StarEvolutionPreview } from "./StarEvolutionPreview"
+import { TimelineScrubber } from "./TimelineScrubber"
+import { CompositionGauge } from "./CompositionGauge"
 import { HRDiagram } from "../HRDiagram"
+import { StarCrossSection } from "../StarCrossSection"
+import { SpectrumPanel, type SpectrumCurve } from "../SpectrumPanel"
+import { DerivedQuantitiesPanel } from "../DerivedQuantitiesPanel"
+
+// Comparison curve for the spectrum panel
+const SUN_SPECTRUM: SpectrumCurve = { T_eff: 5772, R: 1, label: "Sun" }
 
 // For the HR track
-type HRPoint = { logT: number; logL: number; isCollapse?: boolean }
+type HRPoint = { logT: number; logL: number; logg?: number; isCollapse?: boolean }
 
 // ---------- shared temperature → color helpers (match App.tsx) ----------
 
@@ -72,24 +103,86 @@ function mapPhysicalToVisual(
   return { sizePx, glow }
 }
 
-// anchor positions on HRD for final remnants (purely visual)
-function getRemnantAnchor(rem: "wd" | "ns" | "bh"): HRPoint {
+// anchor positions on HRD for final remnants (purely visual; in the Kiel
+// diagram compact remnants sit just below the white-dwarf sequence)
+function getRemnantAnchor(rem: RemnantKind): HRPoint {
   if (rem === "wd") {
-    return { logT: 3.7, logL: -3.0 }
+    return { logT: 3.7, logL: -3.0, logg: 8.0 }
   }
   if (rem === "ns") {
-    return { logT: 4.5, logL: -1.5 }
+    return { logT: 4.5, logL: -1.5, logg: 8.8 }
+  }
+  // black hole / nothing left – very dim, right edge
+  return { logT: 3.5, logL: -4.4, logg: 9.0 }
+}
+
+
+
+function isFinalPhaseId(phaseId: string): boolean {
+  return (
+    phaseId === "wdFinal" ||
+    phaseId === "nsFinal" ||
+    phaseId === "bhFinal" ||
+    phaseId === "pisnFinal"
+  )
+}
+
+// pulsation period for the readout: hours, days or years
+function formatPeriodDays(P: number): string {
+  if (P < 1) return `${(P * 24).toPrecision(2)} h`
+  if (P < 365) return `${P.toPrecision(3)} d`
+  return `${(P / 365.25).toPrecision(2)} yr`
+}
+
+// HR-track point for a state: physical position, sliding to the remnant
+// anchor once the final phase is under way
+function hrPointForState(s: StarEvolutionState): HRPoint {
+  const logT_phys = Math.log10(Math.max(s.T_eff, 1))
+  const logL_phys = Math.log10(Math.max(s.L, 1e-7))
+  const logg_phys = logSurfaceGravity(s.M, s.R)
+
+  if (s.remnant && isFinalPhaseId(s.phaseId)) {
+    const target = getRemnantAnchor(s.remnant)
+    // start sliding once phaseFrac > 0.3
+    const f = Math.min(Math.max((s.phaseFrac - 0.3) / 0.7, 0), 1)
+    return {
+      logT: logT_phys * (1 - f) + target.logT * f,
+      logL: logL_phys * (1 - f) + target.logL * f,
+      logg: logg_phys * (1 - f) + (target.logg ?? logg_phys) * f,
+      isCollapse: f > 0,
+    }
   }
-  // black hole – very dim, right edge
-  return { logT: 3.5, logL: -4.4 }
+
+  return { logT: logT_phys, logL: logL_phys, logg: logg_phys, isCollapse: false }
 }
 
+// Append to a track, thinning the samples so it stays nicely "dashed"
+function appendTrackPoint(prevTrack: HRPoint[], nextPoint: HRPoint): HRPoint[] {
+  const lastPt = prevTrack[prevTrack.length - 1]
+  if (lastPt) {
+    const dT = Math.abs(nextPoint.logT - lastPt.logT)
+    const dL = Math.abs(nextPoint.logL - lastPt.logL)
 
+    // if we haven't moved much, skip adding a new point
+    if (dT < 0.01 && dL < 0.01) {
+      return prevTrack
+    }
+  }
 
+  return [...prevTrack, nextPoint]
+}
+
+// seconds of playback for the planetary-nebula phase
+const NEBULA_SCREEN_SEC = 3
 
 // Visual playback speed per phase (1 = normal, >1 = slower on screen)
 function getPhaseSpeedMultiplier(phaseId: string): number {
   switch (phaseId) {
+    case "pms":
+      // Kelvin–Helmholtz contraction is a sliver of the lifetime,
+      // so slow it way down or the arrival onto the ZAMS is invisible
+      return 100.0
+
     case "ms":
       // still slower than baseline so MS lingers
       return 2.0
@@ -109,6 +202,22 @@ function getPhaseSpeedMultiplier(phaseId: string): number {
     case "agb":
       return 4.0
 
+    case "bsg":
+      // the Hertzsprung gap is crossed in a hurry
+      return 3.0
+
+    case "rsg":
+      // long He-burning stay at the red edge (and the blue loop)
+      return 12.0
+
+    case "lbv":
+      // S Doradus swings back and forth
+      return 6.0
+
+    case "wr":
+      // short, but the dash to the hot side matters
+      return 4.0
+
     case "preCollapse":
       // keep collapse snappy
       return 1.0
@@ -118,6 +227,7 @@ function getPhaseSpeedMultiplier(phaseId: string): number {
 
     case "nsFinal":
     case "bhFinal":
+    case "pisnFinal":
       return 3.0
 
     default:
@@ -132,6 +242,10 @@ function getPhaseSpeedMultiplier(phaseId: string): number {
 
 type SimulationRunnerProps = {
   params: StarParams
+  // binary mode: `params` is the primary, the companion comes from here
+  binary?: BinaryParams
+  // analytic shapes or tabulated tracks (binary mode is always analytic)
+  evolutionModel: EvolutionModel
   initialSizePx: number
   initialColor: string
   initialGlow: number
@@ -140,13 +254,34 @@ type SimulationRunnerProps = {
 
 export function SimulationRunner({
   params,
+  binary,
+  evolutionModel,
   initialSizePx,
   initialColor,
   initialGlow,
   initialPulseSeconds,
 }: SimulationRunnerProps) {
-  // 1) build timeline whenever the star parameters change
-  const timeline = useMemo(() => computeEvolutionTimeline(params), [params])
+  // 1) build timeline whenever the star parameters change; in binary mode
+  // the primary's timeline already includes the Roche-lobe interaction
+  const binaryEvolution = useMemo(
+    () => (binary ? computeBinaryEvolution(binary) : null),
+    [binary],
+  )
+  const timeline = useMemo(
+    () =>
+      binaryEvolution
+        ? binaryEvolution.primary.timeline
+        : computeModelTimeline(params, evolutionModel),
+    [binaryEvolution, params, evolutionModel],
+  )
+
+  // state of the star on screen (the primary in binary mode)
+  const primaryStateAt = useCallback(
+    (t: number): StarEvolutionState =>
+      (binaryEvolution && getBinaryStateAtTime(binaryEvolution, t).primary) ||
+      getStarStateAtTime(params, timeline, t),
+    [binaryEvolution, params, timeline],
+  )
 
   // formatted total lifetime string
   const totalLifetimeLabel = useMemo(() => {
@@ -163,14 +298,60 @@ export function SimulationRunner({
     return `${tMyr.toFixed(1)} million years`
   }, [timeline.totalLifetimeMyr])
 
+  // e.g. "Core-collapse supernova → 1.35 M☉ neutron star"
+  const remnantLabel = useMemo(() => {
+    const fateLabel = FATE_LABELS[timeline.fate]
+    if (timeline.remnant === "none") {
+      return `${fateLabel} → nothing left`
+    }
+    const kind =
+      timeline.remnant === "wd"
+        ? "white dwarf"
+        : timeline.remnant === "ns"
+        ? "neutron star"
+        : timeline.remnant === "bd"
+        ? "brown dwarf"
+        : "black hole"
+    const spin = timeline.remnantSpin
+    const spinLabel =
+      spin.kind === "period"
+        ? `, spinning every ${spin.periodMs.toFixed(0)} ms`
+        : spin.kind === "kerr" && spin.a >= 0.01
+        ? `, spin a* = ${spin.a.toFixed(2)}`
+        : ""
+    return `${fateLabel} → ${timeline.remnantMass.toFixed(2)} M☉ ${kind}${spinLabel}`
+  }, [timeline.fate, timeline.remnant, timeline.remnantMass, timeline.remnantSpin])
+
+  // MK class the star passes through, sampled late in each phase
+  // (e.g. "G2 V → K1 IV → M0 III → ... → DA3")
+  const spectralPath = useMemo(() => {
+    const labels: string[] = []
+    for (const ph of timeline.phases) {
+      const s = primaryStateAt(ph.tStartMyr + 0.9 * ph.durationMyr)
+      const isFinal = isFinalPhaseId(ph.id) || ph.id === "bdFinal"
+      const label = classifyStar({
+        T_eff: s.T_eff,
+        logL: s.logL,
+        logg: logSurfaceGravity(s.M, s.R),
+        remnant: isFinal ? s.remnant : undefined,
+      }).label
+      if (labels[labels.length - 1] !== label) labels.push(label)
+    }
+    return labels.join(" → ")
+  }, [timeline, primaryStateAt])
+
   // 2) simulation state
   const [timeMyr, setTimeMyr] = useState(0)
   const [hasStarted, setHasStarted] = useState(false)
   const [countdown, setCountdown] = useState(3) // 3-second countdown
   const [hasFinished, setHasFinished] = useState(false)
 
+  // spectrum panel: overlay the Sun (binaries overlay the companion)
+  const [compareWithSun, setCompareWithSun] = useState(true)
+
   // HR track points, drawn only while sim is running
   const [trackPoints, setTrackPoints] = useState<HRPoint[]>([])
+  const [companionTrack, setCompanionTrack] = useState<HRPoint[]>([])
 
   // reset when star / timeline changes
   useEffect(() => {
@@ -179,29 +360,41 @@ export function SimulationRunner({
     setCountdown(3)
     setHasFinished(false)
     setTrackPoints([])
+    setCompanionTrack([])
   }, [timeline.totalLifetimeMyr])
 
-  // 2.5) compute a size scale so that at t=0 the sim size
-  // matches the build-screen initialSizePx
+  // 2.5) compute a size scale so that at the ZAMS the sim size
+  // matches the build-screen initialSizePx (the Build screen shows the
+  // ZAMS star, while t=0 is now the start of pre-main-sequence contraction;
+  // brown dwarfs have no ZAMS, so use the end of their contraction)
   const sizeScale = useMemo(() => {
-    const state0 = getStarStateAtTime(params, timeline, 0)
+    const zamsPhase = timeline.phases.find(
+      (ph) => ph.id === "ms" || ph.id === "bdFinal",
+    )
+    const tZams = zamsPhase ? zamsPhase.tStartMyr : 0
+    const state0 = primaryStateAt(tZams)
     const { sizePx: baseSize } = mapPhysicalToVisual(state0.R, state0.L, params)
 
     if (!baseSize || baseSize <= 0) return 1
     return initialSizePx / baseSize
-  }, [params, timeline, initialSizePx])
+  }, [params, timeline, initialSizePx, primaryStateAt])
 
   // 3) countdown before auto-play
   useEffect(() => {
     if (hasStarted || hasFinished) return
     if (countdown <= 0) {
-      // jump a tiny bit into the main sequence so things are already moving
+      // jump a tiny bit into the first phase so things are already moving
+      // (but not past the short pre-main-sequence contraction)
+      const firstPhaseMyr = timeline.phases[0]?.durationMyr ?? 0
       setTimeMyr((prevTime) =>
-        prevTime === 0 ? timeline.totalLifetimeMyr * 0.01 : prevTime,
+        prevTime === 0
+          ? Math.min(timeline.totalLifetimeMyr * 0.01, firstPhaseMyr * 0.01)
+          : prevTime,
       )
       setHasStarted(true)
       // clear any stale track, start fresh
       setTrackPoints([])
+      setCompanionTrack([])
       return
     }
     const id = window.setTimeout(() => {
@@ -209,7 +402,7 @@ export function SimulationRunner({
     }, 1000)
 
     return () => window.clearTimeout(id)
-  }, [countdown, hasStarted, hasFinished, timeline.totalLifetimeMyr])
+  }, [countdown, hasStarted, hasFinished, timeline])
 
   // 4) auto-play loop — ONE PASS only, no looping
   useEffect(() => {
@@ -221,6 +414,7 @@ export function SimulationRunner({
     const totalLifetime = timeline.totalLifetimeMyr
     const baseDurationSec = 25 // global ~25 s playback
     const baseRateMyrPerSec = totalLifetime / baseDurationSec
+    const nebulaPhase = timeline.phases.find((ph) => ph.id === "postAgb")
 
     function loop(now: number) {
       const dtSec = (now - last) / 1000
@@ -228,58 +422,44 @@ export function SimulationRunner({
 
       setTimeMyr((prev) => {
         // which phase are we currently in, based on previous time?
-        const prevState = getStarStateAtTime(params, timeline, prev)
+        const prevState = primaryStateAt(prev)
         const phaseFactor = getPhaseSpeedMultiplier(prevState.phaseId)
         // bigger phaseFactor => slower visual progress in that phase
-        const rateThisPhase = baseRateMyrPerSec / phaseFactor
-
-        const nextRaw = prev + dtSec * rateThisPhase
-        const clamped = Math.min(nextRaw, totalLifetime)
-
-        const s = getStarStateAtTime(params, timeline, clamped)
-
-        const logT_phys = Math.log10(Math.max(s.T_eff, 1))
-        const logL_phys = Math.log10(Math.max(s.L, 1e-4))
-
-        let hrLogT = logT_phys
-        let hrLogL = logL_phys
-        let isCollapseSample = false
-
-        const isFinalPhaseSample =
-          s.phaseId === "wdFinal" ||
-          s.phaseId === "nsFinal" ||
-          s.phaseId === "bhFinal"
-
-        if (s.remnant && isFinalPhaseSample) {
-          const target = getRemnantAnchor(s.remnant)
-          // start sliding once phaseFrac > 0.3
-          const f = Math.min(Math.max((s.phaseFrac - 0.3) / 0.7, 0), 1)
-          hrLogT = logT_phys * (1 - f) + target.logT * f
-          hrLogL = logL_phys * (1 - f) + target.logL * f
-          isCollapseSample = f > 0
+        let rateThisPhase = baseRateMyrPerSec / phaseFactor
+
+        // the planetary nebula is ~10⁻⁶ of the lifetime, far below what
+        // a multiplier can stretch: give it a fixed screen time instead
+        if (nebulaPhase && prevState.phaseId === "postAgb") {
+          rateThisPhase = Math.min(
+            rateThisPhase,
+            nebulaPhase.durationMyr / NEBULA_SCREEN_SEC,
+          )
         }
 
-        // Thin out the samples so the track stays nicely "dashed"
-        setTrackPoints((prevTrack) => {
-          const nextPoint: HRPoint = {
-            logT: hrLogT,
-            logL: hrLogL,
-            isCollapse: isCollapseSample,
-          }
-
-          const lastPt = prevTrack[prevTrack.length - 1]
-          if (lastPt) {
-            const dT = Math.abs(nextPoint.logT - lastPt.logT)
-            const dL = Math.abs(nextPoint.logL - lastPt.logL)
+        let nextRaw = prev + dtSec * rateThisPhase
+        // and land inside it rather than step over it in one frame
+        if (
+          nebulaPhase &&
+          prev < nebulaPhase.tStartMyr &&
+          nextRaw > nebulaPhase.tStartMyr
+        ) {
+          nextRaw = nebulaPhase.tStartMyr + 1e-3 * nebulaPhase.durationMyr
+        }
+        const clamped = Math.min(nextRaw, totalLifetime)
 
-            // if we haven't moved much, skip adding a new point
-            if (dT < 0.01 && dL < 0.01) {
-              return prevTrack
-            }
+        const s = primaryStateAt(clamped)
+        const nextPoint = hrPointForState(s)
+        setTrackPoints((prevTrack) => appendTrackPoint(prevTrack, nextPoint))
+
+        if (binaryEvolution) {
+          const companionState = getBinaryStateAtTime(binaryEvolution, clamped).secondary
+          if (companionState) {
+            const companionPoint = hrPointForState(companionState)
+            setCompanionTrack((prevTrack) =>
+              appendTrackPoint(prevTrack, companionPoint),
+            )
           }
-
-          return [...prevTrack, nextPoint]
-        })
+        }
 
         if (nextRaw >= totalLifetime) {
           cancelAnimationFrame(frameId)
@@ -298,15 +478,15 @@ export function SimulationRunner({
     return () => {
       cancelAnimationFrame(frameId)
     }
-  }, [hasStarted, hasFinished, timeline, params])
+  }, [hasStarted, hasFinished, timeline, primaryStateAt, binaryEvolution])
 
   // 4.5) smoothed visual star state (low-pass filter on T, R, L)
   const [smoothStarState, setSmoothStarState] = useState(() =>
-    getStarStateAtTime(params, timeline, 0),
+    primaryStateAt(0),
   )
 
   useEffect(() => {
-    const raw = getStarStateAtTime(params, timeline, timeMyr)
+    const raw = primaryStateAt(timeMyr)
     const alpha = 0.25 // 0 = frozen, 1 = raw (higher = less smoothing)
 
     setSmoothStarState((prev) => {
@@ -318,16 +498,14 @@ export function SimulationRunner({
         L: prev.L + (raw.L - prev.L) * alpha,
       }
     })
-  }, [params, timeline, timeMyr])
+  }, [primaryStateAt, timeMyr])
 
   // 5) split: raw state drives HR track + marker, smoothed drives visuals
   const visualState = smoothStarState
-  const physicalState = getStarStateAtTime(params, timeline, timeMyr)
+  const physicalState = primaryStateAt(timeMyr)
 
   const { T_eff: T_vis, R: R_vis, L: L_vis } = visualState
   const {
-    T_eff: T_phys_now,
-    L: L_phys_now,
     remnant,
     phaseId,
     phaseFrac,
@@ -335,12 +513,12 @@ export function SimulationRunner({
   } = physicalState
 
   // Final-phase detection based on physical state
-  const isFinalPhase =
-    phaseId === "wdFinal" || phaseId === "nsFinal" || phaseId === "bhFinal"
+  const isFinalPhase = isFinalPhaseId(phaseId)
 
   // Only reveal the remnant visuals once we're well into the final phase
+  // (a brown dwarf is one from the start)
   const remnantForPreview =
-    isFinalPhase && phaseFrac > 0.3 ? remnant : undefined
+    remnant === "bd" || (isFinalPhase && phaseFrac > 0.3) ? remnant : undefined
 
   // 6) convert to visuals (size, glow, color) using smoothed state,
   // then apply the calibration scale
@@ -377,25 +555,146 @@ export function SimulationRunner({
         : glowPhysical
   }
 
-  const pulseSeconds = initialPulseSeconds
+  // pulsating variables (pulsation.ts) beat at their own period, squeezed
+  // from days into a watchable range (RR Lyrae fast, Miras slow);
+  // everything else keeps the Build screen's gentle pulse
+  const pulsation =
+    hasStarted && !remnantForPreview ? classifyPulsation(physicalState) : null
+  const pulseSeconds = pulsation
+    ? Math.min(Math.max(0.4 + 0.5 * Math.log10(1 + pulsation.periodDays), 0.4), 3)
+    : initialPulseSeconds
+
+  // rotation: the star spins down as it swells (and up as it contracts);
+  // the collapse to a remnant is drawn round
+  const starOblateness = isFinalPhase
+    ? 1
+    : oblateness(rotationAtRadius(params.rotation, timeline.initial.R_ms, R_vis))
+
+  // convection cells wherever the envelope boils (structure.ts): the
+  // deeper the envelope the stronger; bigger cells on bigger stars
+  const { structure } = physicalState
+  const convectiveDepth = 1 - structure.envelopeBaseRadius
+  const starGranulation =
+    convectiveDepth > 0 && (!remnantForPreview || remnantForPreview === "bd")
+      ? {
+          strength: Math.min(0.4 + convectiveDepth, 1),
+          cellFraction: Math.min(
+            Math.max(0.06 + 0.06 * Math.log10(Math.max(physicalState.R, 0.01)), 0.05),
+            0.3,
+          ),
+        }
+      : undefined
+
+  // planetary nebula: the shell ejected at the end of the AGB expands
+  // and fades over the post-AGB crossing
+  const starNebula =
+    physicalState.phaseId === "postAgb"
+      ? { progress: physicalState.phaseFrac }
+      : undefined
+
+  // log g, density, timescales: of the compact remnant once it shows
+  const remnantR = remnantForPreview
+    ? remnantRadius(remnantForPreview, timeline.remnantMass)
+    : null
+  const derived = derivedQuantities(
+    remnantR !== null
+      ? { M: timeline.remnantMass, R: remnantR, L: physicalState.L, fuel: null }
+      : {
+          M: physicalState.M,
+          R: physicalState.R,
+          L: physicalState.L,
+          fuel: physicalState.composition.fuel.element,
+        },
+  )
 
   // 7) HR diagram coordinates – from RAW physical state so marker
   // hugs the yellow track exactly.
-  const logT_phys_now = Math.log10(Math.max(T_phys_now, 1))
-  const logL_phys_now = Math.log10(Math.max(L_phys_now, 1e-4))
-
-  let hrLogT = logT_phys_now
-  let hrLogL = logL_phys_now
-
-  if (remnantForPreview && isFinalPhase) {
-    const target = getRemnantAnchor(remnantForPreview)
-
-    // start sliding once remnant visuals are on; finish by end of phase
-    const f = Math.min(Math.max((phaseFrac - 0.3) / 0.7, 0), 1)
-
-    hrLogT = logT_phys_now * (1 - f) + target.logT * f
-    hrLogL = logL_phys_now * (1 - f) + target.logL * f
-  }
+  const { logT: hrLogT, logL: hrLogL, logg: hrLogg } = hrPointForState(physicalState)
+
+  // live MK class (the remnant's label once it is revealed)
+  const spectralLabel = classifyStar({
+    T_eff: physicalState.T_eff,
+    logL: physicalState.logL,
+    logg: hrLogg,
+    remnant: remnantForPreview,
+  }).label
+
+  // 8) companion (binary mode): raw state, same size calibration as the
+  // primary so the two stars are drawn to scale
+  const binaryState = binaryEvolution
+    ? getBinaryStateAtTime(binaryEvolution, timeMyr)
+    : null
+  const companionState = binaryState?.secondary ?? null
+  const rlofEvent = binaryEvolution?.event ?? null
+  const companionParams = binaryEvolution?.secondary.params
+  const companionIsFinal = companionState
+    ? isFinalPhaseId(companionState.phaseId)
+    : false
+  const companionRemnant =
+    companionState &&
+    (companionState.remnant === "bd" ||
+      (companionIsFinal && companionState.phaseFrac > 0.3))
+      ? companionState.remnant
+      : undefined
+  const companionVisual =
+    companionState && companionParams
+      ? mapPhysicalToVisual(companionState.R, companionState.L, companionParams)
+      : null
+  const companionHR = companionState ? hrPointForState(companionState) : undefined
+  const companionSpectralLabel = companionState
+    ? classifyStar({
+        T_eff: companionState.T_eff,
+        logL: companionState.logL,
+        logg: companionHR?.logg,
+        remnant: companionRemnant,
+      }).label
+    : undefined
+  // an accretor that was spun up by the transfer flattens from then on
+  const companionSpin =
+    rlofEvent && timeMyr >= rlofEvent.tMyr && binaryEvolution?.secondary.rebuilt
+      ? binaryEvolution.secondary.rebuilt.params.rotation
+      : companionParams?.rotation ?? 0
+  const companionOblateness = oblateness(companionSpin)
+
+  // the overflow badge stays up for ~2% of the lifetime after first contact
+  const showRlofBadge =
+    hasStarted &&
+    rlofEvent !== null &&
+    timeMyr >= rlofEvent.tMyr &&
+    timeMyr < rlofEvent.tMyr + 0.02 * timeline.totalLifetimeMyr
+
+  // helium flash / thermal pulses of the primary: announce the latest one
+  // for as long as its phase lasts (or until the next pulse). After a
+  // binary interaction the star is rebuilt, so only earlier events count.
+  const evolutionEvents = useMemo(
+    () =>
+      getEvolutionEvents(params, timeline).filter(
+        (e) => !rlofEvent || e.tMyr < rlofEvent.tMyr,
+      ),
+    [params, timeline, rlofEvent],
+  )
+  const latestEvent = hasStarted
+    ? evolutionEvents
+        .filter((e) => e.tMyr <= timeMyr && e.phaseId === physicalState.phaseId)
+        .at(-1)
+    : undefined
+
+  // 9) spectrum panel: the smoothed state, so the curve glides; black
+  // holes (and PISN debris) have no photosphere to draw
+  const hasPhotosphere = remnantForPreview !== "bh" && remnantForPreview !== "none"
+  const spectrumStar: SpectrumCurve | null = hasPhotosphere
+    ? { T_eff: T_vis, R: R_vis, label: spectralLabel }
+    : null
+  const spectrumOverlay: SpectrumCurve | undefined =
+    companionState && companionSpectralLabel
+      ? {
+          T_eff: companionState.T_eff,
+          R: companionState.R,
+          label: `Companion (${companionSpectralLabel})`,
+        }
+      : compareWithSun
+      ? SUN_SPECTRUM
+      : undefined
 
   // lock HR zoom so there’s no random zoom-in/out glitch
   const disableStarZoom = true
@@ -405,13 +704,54 @@ export function SimulationRunner({
   return (
     <div className="simulation-runner">
       <div className="simulation-runner-preview">
-        <StarEvolutionPreview
-          sizePx={sizePx}
-          color={color}
-          glow={glow}
-          pulseSeconds={pulseSeconds}
-          remnant={remnantForPreview}
-        />
+        <div className="simulation-star-row">
+          <StarEvolutionPreview
+            sizePx={sizePx}
+            color={color}
+            glow={glow}
+            pulseSeconds={pulseSeconds}
+            pulseAmplitude={pulsation?.radiusAmplitude}
+            remnant={remnantForPreview}
+            remnantMass={remnantForPreview ? timeline.remnantMass : undefined}
+            oblateness={starOblateness}
+            granulation={starGranulation}
+            nebula={starNebula}
+          />
+
+          {hasStarted && (
+            <div className="simulation-cross-section">
+              <StarCrossSection state={physicalState} remnant={remnantForPreview} />
+            </div>
+          )}
+        </div>
+
+        {companionState && companionVisual && (
+          <div className="simulation-companion-preview">
+            <StarEvolutionPreview
+              sizePx={companionVisual.sizePx * sizeScale}
+              color={temperatureToColor(companionState.T_eff)}
+              glow={companionVisual.glow}
+              pulseSeconds={initialPulseSeconds}
+              remnant={companionRemnant}
+              remnantMass={
+                companionRemnant
+                  ? binaryEvolution?.secondary.timeline.remnantMass
+                  : undefined
+              }
+              oblateness={companionIsFinal ? 1 : companionOblateness}
+            />
+          </div>
+        )}
+
+        {latestEvent && (
+          <div className="simulation-event-badge">{latestEvent.label}</div>
+        )}
+
+        {showRlofBadge && rlofEvent && (
+          <div className="simulation-rlof-badge">
+            Roche-lobe overflow — Case {rlofEvent.transferCase}
+          </div>
+        )}
 
         {!hasStarted && (
           <div className="simulation-countdown">
@@ -419,12 +759,58 @@ export function SimulationRunner({
           </div>
         )}
 
+        {hasStarted && (
+          <TimelineScrubber timeline={timeline} timeMyr={timeMyr} />
+        )}
+
+        {hasStarted && !hasFinished && (
+          <div className="simulation-lifetime">
+            Spectral class: {spectralLabel} · {physicalState.phaseLabel} ·{" "}
+            {structure.label}
+          </div>
+        )}
+
+        {hasStarted && !hasFinished && pulsation && (
+          <div className="simulation-lifetime simulation-variable">
+            Variable star: {pulsation.label} · P ={" "}
+            {formatPeriodDays(pulsation.periodDays)}
+          </div>
+        )}
+
+        {hasStarted && (
+          <CompositionGauge
+            composition={physicalState.composition}
+            M={physicalState.M}
+          />
+        )}
+
+        {hasStarted && (
+          <DerivedQuantitiesPanel quantities={derived} />
+        )}
+
         {hasFinished && (
           <>
             <div className="simulation-finished">Evolution complete</div>
             <div className="simulation-lifetime">
               Total lifetime: {totalLifetimeLabel}
             </div>
+            <div className="simulation-lifetime">
+              Remnant: {remnantLabel}
+            </div>
+            <div className="simulation-lifetime">
+              Spectral path: {spectralPath}
+            </div>
+            {binaryEvolution && (
+              <div className="simulation-lifetime">
+                System: {BINARY_OUTCOME_LABELS[binaryEvolution.outcome]}
+                {rlofEvent &&
+                  ` (${rlofEvent.massLost.toFixed(2)} M☉ lost by the ${
+                    rlofEvent.donor === "primary" ? "primary" : "companion"
+                  }, ${rlofEvent.massAccreted.toFixed(2)} M☉ accreted, a = ${rlofEvent.separationAfterAU.toPrecision(
+                    2,
+                  )} AU)`}
+              </div>
+            )}
           </>
         )}
       </div>
@@ -433,14 +819,30 @@ export function SimulationRunner({
       <div className="simulation-panels-row">
         <div className="simulation-hr-tilt">
           <HRDiagram
-            current={{ logT: hrLogT, logL: hrLogL }}
+            current={{ logT: hrLogT, logL: hrLogL, logg: hrLogg }}
             track={hasStarted ? trackPoints : undefined}
+            companion={companionHR}
+            companionTrack={hasStarted ? companionTrack : undefined}
+            spectralLabel={spectralLabel}
+            companionSpectralLabel={companionSpectralLabel}
             disableStarZoom={disableStarZoom}
             remnant={remnantForPreview}
             fracTotal={fracTotal}
             hasFinished={hasFinished}
           />
         </div>
+
+        <div className="simulation-spectrum">
+          <SpectrumPanel star={spectrumStar} overlay={spectrumOverlay} />
+          {!binaryEvolution && (
+            <button
+              className="spectrum-scale-toggle"
+              onClick={() => setCompareWithSun((on) => !on)}
+            >
+              {compareWithSun ? "Hide Sun" : "Compare with the Sun"}
+            </button>
+          )}
+        </div>
       </div>
     </div>
   )
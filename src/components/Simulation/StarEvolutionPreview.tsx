@@ -1,12 +1,18 @@
-import { StarPreview } from "../StarPreview"
+import { StarPreview, type Granulation, type Nebula } from "../StarPreview"
+import type { RemnantKind } from "../../engine/starEvolutionEngine"
 
 type StarEvolutionPreviewProps = {
   sizePx: number
   color: string
   glow: number
   // optional – only set near the very end of the simulation
-  remnant?: "wd" | "ns" | "bh"
+  remnant?: RemnantKind
+  remnantMass?: number
+  oblateness?: number
+  granulation?: Granulation
+  nebula?: Nebula
   pulseSeconds?: number
+  pulseAmplitude?: number
 }
 
 export function StarEvolutionPreview({
@@ -14,7 +20,12 @@ export function StarEvolutionPreview({
   color,
   glow,
   remnant,
+  remnantMass,
+  oblateness,
+  granulation,
+  nebula,
   pulseSeconds,
+  pulseAmplitude,
 }: StarEvolutionPreviewProps) {
   return (
     <StarPreview
@@ -22,7 +33,12 @@ export function StarEvolutionPreview({
       color={color}
       glow={glow}
       remnant={remnant}
+      remnantMass={remnantMass}
+      oblateness={oblateness}
+      granulation={granulation}
+      nebula={nebula}
       pulseSeconds={pulseSeconds ?? 3}
+      pulseAmplitude={pulseAmplitude}
     />
   )
 }
\ No newline at end of file
@@ -6,6 +6,10 @@ type TimelineScrubberProps = {
   timeMyr: number        // current time from SimulationRunner
 }
 
+// share of the bar every phase gets at least, so blink-of-an-eye phases
+// (planetary nebula, blue supergiant crossing) still show up
+const MIN_SEGMENT_FRAC = 0.04
+
 export function TimelineScrubber({ timeline, timeMyr }: TimelineScrubberProps) {
   const { totalLifetimeMyr, phases } = timeline
 
@@ -19,15 +23,20 @@ export function TimelineScrubber({ timeline, timeMyr }: TimelineScrubberProps) {
       (p) => timeMyr >= p.tStartMyr && timeMyr < p.tEndMyr,
     ) ?? phases[phases.length - 1]
 
+  // segment widths: true share of the lifetime, floored, renormalised
+  const rawWidths = phases.map((phase) =>
+    Math.max(
+      totalLifetimeMyr > 0 ? phase.durationMyr / totalLifetimeMyr : 0,
+      MIN_SEGMENT_FRAC,
+    ),
+  )
+  const widthSum = rawWidths.reduce((sum, w) => sum + w, 0) || 1
+
   return (
     <div className="timeline-scrubber">
       <div className="timeline-bar">
-        {phases.map((phase) => {
-          const widthFrac =
-            totalLifetimeMyr > 0
-              ? phase.durationMyr / totalLifetimeMyr
-              : 0
-          const widthPercent = widthFrac * 100
+        {phases.map((phase, i) => {
+          const widthPercent = (rawWidths[i] / widthSum) * 100
 
           const phaseSpan = phase.fracEnd - phase.fracStart || 1
           const localFill =
@@ -46,6 +55,7 @@ export function TimelineScrubber({ timeline, timeMyr }: TimelineScrubberProps) {
                 isActive ? "is-active" : ""
               }`}
               style={{ width: `${widthPercent}%` }}
+              title={phase.label}
             >
               <div
                 className="timeline-segment-fill"
@@ -0,0 +1,252 @@
+// src/components/SpectrumPanel.tsx
+import { useState } from "react"
+import {
+  VISIBLE_BAND_NM,
+  sampleSpectrum,
+  visibleFraction,
+  wienPeakNm,
+} from "../engine/blackbody"
+
+// One blackbody to draw
+export type SpectrumCurve = {
+  T_eff: number // K
+  R: number     // R / R☉
+  label: string
+}
+
+type SpectrumPanelProps = {
+  star: SpectrumCurve | null  // null → nothing thermal to show (black hole …)
+  overlay?: SpectrumCurve     // second star or the Sun, drawn dashed
+}
+
+// wavelength range on the (log) x axis, nm: far UV to mid IR
+const LAMBDA_MIN = 50
+const LAMBDA_MAX = 20000
+
+const LAMBDA_TICKS: { nm: number; label: string }[] = [
+  { nm: 100, label: "100 nm" },
+  { nm: 300, label: "300 nm" },
+  { nm: 1000, label: "1 µm" },
+  { nm: 3000, label: "3 µm" },
+  { nm: 10000, label: "10 µm" },
+]
+
+// rough rainbow for the visible-band shading
+const VISIBLE_STOPS: { nm: number; color: string }[] = [
+  { nm: 380, color: "#7a00c8" },
+  { nm: 450, color: "#2a4dff" },
+  { nm: 495, color: "#00c8c8" },
+  { nm: 530, color: "#3ccf3c" },
+  { nm: 580, color: "#f0e000" },
+  { nm: 620, color: "#ff8a00" },
+  { nm: 750, color: "#c80000" },
+]
+
+export function SpectrumPanel({ star, overlay }: SpectrumPanelProps) {
+  // "shape": each curve scaled to its own peak (where does it peak?)
+  // "luminosity": true R² B_λ, both curves on one scale (how much light?)
+  const [scale, setScale] = useState<"shape" | "luminosity">("shape")
+
+  // DIAGRAM SIZE (same bubble family as the HR diagram)
+  const width = 460
+  const height = 220
+  const paddingLeft = 20
+  const paddingRight = 20
+  const paddingTop = 30
+  const paddingBottom = 40
+  const plotWidth = width - paddingLeft - paddingRight
+  const plotHeight = height - paddingTop - paddingBottom
+
+  const logMin = Math.log10(LAMBDA_MIN)
+  const logMax = Math.log10(LAMBDA_MAX)
+
+  function xFor(lambdaNm: number) {
+    return paddingLeft + ((Math.log10(lambdaNm) - logMin) / (logMax - logMin)) * plotWidth
+  }
+
+  const starSamples = star
+    ? sampleSpectrum(star.T_eff, star.R, LAMBDA_MIN, LAMBDA_MAX)
+    : []
+  const overlaySamples = overlay
+    ? sampleSpectrum(overlay.T_eff, overlay.R, LAMBDA_MIN, LAMBDA_MAX)
+    : []
+
+  const peakOf = (samples: { value: number }[]) =>
+    samples.reduce((m, s) => Math.max(m, s.value), 0)
+  const starPeak = peakOf(starSamples)
+  const overlayPeak = peakOf(overlaySamples)
+  const sharedPeak = Math.max(starPeak, overlayPeak)
+
+  function pathFor(samples: { lambdaNm: number; value: number }[], peak: number) {
+    if (samples.length === 0 || peak <= 0) return ""
+    return samples
+      .map((s) => {
+        const y = paddingTop + plotHeight * (1 - s.value / peak)
+        return `${xFor(s.lambdaNm).toFixed(1)},${y.toFixed(1)}`
+      })
+      .join(" ")
+  }
+
+  const starPath = pathFor(starSamples, scale === "shape" ? starPeak : sharedPeak)
+  const overlayPath = pathFor(
+    overlaySamples,
+    scale === "shape" ? overlayPeak : sharedPeak,
+  )
+
+  const peakNm = star ? wienPeakNm(star.T_eff) : null
+  const peakInRange = peakNm !== null && peakNm >= LAMBDA_MIN && peakNm <= LAMBDA_MAX
+  const peakLabel =
+    peakNm === null
+      ? ""
+      : peakNm >= 1000
+      ? `${(peakNm / 1000).toFixed(2)} µm`
+      : `${peakNm.toFixed(0)} nm`
+
+  const visibleX0 = xFor(VISIBLE_BAND_NM.min)
+  const visibleX1 = xFor(VISIBLE_BAND_NM.max)
+
+  return (
+    <div className="spectrum-wrapper">
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        style={{ display: "block", margin: "0 auto" }}
+      >
+        <defs>
+          <linearGradient id="spectrum-visible" x1="0" x2="1" y1="0" y2="0">
+            {VISIBLE_STOPS.map(({ nm, color }) => (
+              <stop
+                key={nm}
+                offset={(xFor(nm) - visibleX0) / (visibleX1 - visibleX0)}
+                stopColor={color}
+              />
+            ))}
+          </linearGradient>
+        </defs>
+
+        {/* Visible band */}
+        <rect
+          x={visibleX0}
+          y={paddingTop}
+          width={visibleX1 - visibleX0}
+          height={plotHeight}
+          fill="url(#spectrum-visible)"
+          opacity={0.22}
+        />
+
+        {/* Wavelength grid + labels */}
+        {LAMBDA_TICKS.map(({ nm, label }) => (
+          <g key={nm}>
+            <line
+              x1={xFor(nm)}
+              x2={xFor(nm)}
+              y1={paddingTop}
+              y2={paddingTop + plotHeight}
+              stroke="var(--hr-grid)"
+              strokeWidth={1.0}
+            />
+            <text
+              x={xFor(nm)}
+              y={paddingTop + plotHeight + 14}
+              textAnchor="middle"
+              fontSize={12}
+              fill="var(--hr-axis-text)"
+            >
+              {label}
+            </text>
+          </g>
+        ))}
+
+        <line
+          x1={paddingLeft}
+          x2={paddingLeft + plotWidth}
+          y1={paddingTop + plotHeight}
+          y2={paddingTop + plotHeight}
+          stroke="var(--hr-axis-text)"
+          strokeWidth={1.0}
+        />
+
+        <text
+          x={paddingLeft + plotWidth / 2}
+          y={paddingTop + plotHeight + 34}
+          textAnchor="middle"
+          fontSize={14}
+          fontWeight="bold"
+          fill="var(--hr-axis-text)"
+        >
+          Wavelength
+        </text>
+
+        {/* Comparison curve (dashed) */}
+        {overlayPath && (
+          <polyline
+            points={overlayPath}
+            fill="none"
+            stroke="#6fd6c4"
+            strokeWidth={1.4}
+            strokeDasharray="5 4"
+          />
+        )}
+
+        {/* The star */}
+        {starPath && (
+          <polyline
+            points={starPath}
+            fill="none"
+            stroke="var(--hr-track)"
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+        )}
+
+        {/* Wien peak */}
+        {peakInRange && peakNm !== null && (
+          <line
+            x1={xFor(peakNm)}
+            x2={xFor(peakNm)}
+            y1={paddingTop}
+            y2={paddingTop + plotHeight}
+            stroke="var(--hr-current-ring)"
+            strokeWidth={1}
+            strokeDasharray="3 3"
+          />
+        )}
+
+        {/* Readout */}
+        <text
+          x={paddingLeft}
+          y={paddingTop - 10}
+          fontSize={12}
+          fill="var(--hr-legend-text)"
+          textAnchor="start"
+        >
+          {star
+            ? `${star.label}: T = ${Math.round(star.T_eff)} K, λ_max = ${peakLabel}, ${(
+                visibleFraction(star.T_eff) * 100
+              ).toFixed(0)}% visible`
+            : "No thermal spectrum"}
+        </text>
+
+        {overlay && (
+          <text
+            x={paddingLeft + plotWidth}
+            y={paddingTop + 14}
+            fontSize={12}
+            fill="#6fd6c4"
+            textAnchor="end"
+          >
+            - - {overlay.label}
+          </text>
+        )}
+      </svg>
+
+      <button
+        className="spectrum-scale-toggle"
+        onClick={() => setScale((s) => (s === "shape" ? "luminosity" : "shape"))}
+      >
+        {scale === "shape" ? "Peak-normalised" : "True brightness (R² B_λ)"}
+      </button>
+    </div>
+  )
+}
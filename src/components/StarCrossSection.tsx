@@ -0,0 +1,265 @@
+// src/components/StarCrossSection.tsx
+import {
+  radiusAtMassFraction,
+  radiusAtTemperatureFraction,
+  stellarInterior,
+} from "../engine/polytrope"
+import type { StarEvolutionState } from "../engine/starEvolutionCurves"
+import type { RemnantKind } from "../engine/starEvolutionEngine"
+
+type StarCrossSectionProps = {
+  state: StarEvolutionState
+  remnant?: RemnantKind // only once the remnant has formed
+}
+
+const SHELL_COLORS = {
+  core: "#fff2c4",
+  radiative: "#ffb347",
+  convective: "#e8603c",
+  degenerate: "#cfe3ff",
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function formatSci(x: number, unit: string): string {
+  if (!Number.isFinite(x) || x <= 0) return `0 ${unit}`
+  const exp = Math.floor(Math.log10(x))
+  if (exp >= -2 && exp < 4) return `${x.toPrecision(3)} ${unit}`
+  return `${(x / Math.pow(10, exp)).toFixed(2)}e${exp} ${unit}`
+}
+
+export function StarCrossSection({ state, remnant }: StarCrossSectionProps) {
+  const interior = stellarInterior(state, remnant)
+
+  // DIAGRAM SIZE
+  const width = 320
+  const height = 210
+  const cx = 95
+  const cy = 100
+  const radius = 82
+
+  // profile plot on the right
+  const plotX = 200
+  const plotY = 25
+  const plotW = 110
+  const plotH = 150
+
+  if (!interior) {
+    return (
+      <div className="cross-section-wrapper">
+        <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+          <circle cx={cx} cy={cy} r={radius * 0.25} fill="#000" stroke="#6a6d78" />
+          <text
+            x={width / 2}
+            y={height - 4}
+            textAnchor="middle"
+            fontSize={12}
+            fill="var(--hr-legend-text)"
+          >
+            {remnant === "bh" ? "Event horizon — no interior to show" : "No star left"}
+          </text>
+        </svg>
+      </div>
+    )
+  }
+
+  const { model, degenerate, coreResolved } = interior
+  const qCore = state.M > 0 ? state.composition.heCoreMass / state.M : 0
+  const burningInCore =
+    state.composition.burning === "coreH" || state.composition.burning === "coreHe"
+  const coreR = Math.max(
+    qCore > 0 ? radiusAtMassFraction(model, qCore) : 0,
+    burningInCore ? radiusAtTemperatureFraction(model, 0.6) : 0,
+  )
+  // convective / radiative zones from the engine (structure.ts); the
+  // convective core is placed by mass in this star's own profile
+  const { structure } = state
+  const convectiveCoreR =
+    structure.convectiveCoreMass > 0
+      ? radiusAtMassFraction(model, structure.convectiveCoreMass)
+      : 0
+
+  // draw outside-in: each circle covers the one before it
+  type Shell = { r: number; fill: string; convective: boolean; key: string }
+  const shells: Shell[] = []
+  if (degenerate) {
+    shells.push({
+      r: 1,
+      fill: SHELL_COLORS.degenerate,
+      convective: false,
+      key: "degenerate",
+    })
+  } else {
+    const envelopeConvective = structure.envelopeBaseRadius < 1
+    shells.push({
+      r: 1,
+      fill: envelopeConvective ? SHELL_COLORS.convective : SHELL_COLORS.radiative,
+      convective: envelopeConvective,
+      key: "envelope",
+    })
+    if (structure.envelopeBaseRadius > 0 && envelopeConvective) {
+      shells.push({
+        r: structure.envelopeBaseRadius,
+        fill: SHELL_COLORS.radiative,
+        convective: false,
+        key: "radiative",
+      })
+    }
+    if (convectiveCoreR > 0) {
+      shells.push({
+        r: convectiveCoreR,
+        fill: SHELL_COLORS.convective,
+        convective: true,
+        key: "convective-core",
+      })
+    }
+  }
+
+  // profiles normalised to their central values
+  type Curve = { key: string; color: string; label: string; value: (i: number) => number }
+  const curves: Curve[] = [
+    {
+      key: "rho",
+      color: "#5bb8ff",
+      label: "ρ",
+      value: (i) => model.samples[i].rho / model.rhoCentral,
+    },
+    {
+      key: "P",
+      color: "#9b8cff",
+      label: "P",
+      value: (i) => model.samples[i].P / model.PCentral,
+    },
+  ]
+  // a degenerate remnant's temperature has nothing to do with P / ρ
+  if (!degenerate) {
+    curves.push({
+      key: "T",
+      color: "#ff8a5b",
+      label: "T",
+      value: (i) => model.samples[i].T / model.TCentral,
+    })
+  }
+
+  const pathFor = (value: (i: number) => number) =>
+    model.samples
+      .map((s, i) => {
+        const x = plotX + s.r * plotW
+        const y = plotY + (1 - clamp(value(i), 0, 1)) * plotH
+        return `${x.toFixed(1)},${y.toFixed(1)}`
+      })
+      .join(" ")
+
+  return (
+    <div className="cross-section-wrapper">
+      <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+        {/* Concentric shells */}
+        {shells.map(({ r, fill, key }) => (
+          <circle key={key} cx={cx} cy={cy} r={r * radius} fill={fill} />
+        ))}
+
+        {/* Core on top, translucent so a convective core shows through */}
+        {!degenerate && coreR > 0 && (
+          <circle
+            cx={cx}
+            cy={cy}
+            r={coreR * radius}
+            fill={SHELL_COLORS.core}
+            opacity={0.8}
+          />
+        )}
+
+        {/* Dashed rings mark the convective (boiling) regions */}
+        {shells
+          .filter((shell) => shell.convective)
+          .map(({ r, key }) => (
+            <circle
+              key={`${key}-ring`}
+              cx={cx}
+              cy={cy}
+              r={r * radius * 0.92}
+              fill="none"
+              stroke="rgba(255,255,255,0.35)"
+              strokeWidth={1}
+              strokeDasharray="3 4"
+            />
+          ))}
+
+        {/* Profiles */}
+        <line
+          x1={plotX}
+          x2={plotX + plotW}
+          y1={plotY + plotH}
+          y2={plotY + plotH}
+          stroke="var(--hr-axis-text)"
+        />
+        <line
+          x1={plotX}
+          x2={plotX}
+          y1={plotY}
+          y2={plotY + plotH}
+          stroke="var(--hr-axis-text)"
+        />
+        {curves.map(({ key, color, value }) => (
+          <polyline
+            key={key}
+            points={pathFor(value)}
+            fill="none"
+            stroke={color}
+            strokeWidth={1.6}
+          />
+        ))}
+        {curves.map(({ key, color, label }, i) => (
+          <text
+            key={`${key}-label`}
+            x={plotX + plotW - 4 - i * 16}
+            y={plotY + 10}
+            textAnchor="end"
+            fontSize={12}
+            fill={color}
+          >
+            {label}
+          </text>
+        ))}
+        <text
+          x={plotX + plotW / 2}
+          y={plotY + plotH + 14}
+          textAnchor="middle"
+          fontSize={11}
+          fill="var(--hr-axis-text)"
+        >
+          r / R
+        </text>
+
+        {/* Readout */}
+        <text
+          x={width / 2}
+          y={height - 4}
+          textAnchor="middle"
+          fontSize={11}
+          fill="var(--hr-legend-text)"
+        >
+          n = {model.n.toFixed(1)}
+          {!coreResolved
+            ? " · giant: dense core not resolved"
+            : ` · ρ_c = ${formatSci(model.rhoCentral, "g/cm³")}${
+                degenerate ? " · degenerate" : ` · T_c = ${formatSci(model.TCentral / 1e6, "MK")}`
+              }`}
+        </text>
+      </svg>
+
+      <div className="cross-section-legend">
+        <span>{structure.label}</span>
+      </div>
+      <div className="cross-section-legend">
+        <span style={{ color: SHELL_COLORS.core }}>● Core</span>
+        <span style={{ color: SHELL_COLORS.radiative }}>● Radiative</span>
+        <span style={{ color: SHELL_COLORS.convective }}>● Convective</span>
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,31 @@
 // src/components/StarPreview.tsx
 import React from "react"
-
-type RemnantKind = "wd" | "ns" | "bh"
+import {
+  neutronStarRadiusKm,
+  whiteDwarfRadius,
+} from "../engine/remnants"
+import type { RemnantKind } from "../engine/starEvolutionEngine"
 
 type StarPreviewProps = {
   sizePx: number        // diameter in pixels
   color: string         // base color from T_eff
   glow: number          // 0–1, from luminosity (derived from starEngine)
   pulseSeconds: number  // pulsation period in seconds
-  remnant?: RemnantKind // optional: WD / NS / BH visual tweaks
+  pulseAmplitude?: number // optional: fractional radius swing (default 0.04)
+  remnant?: RemnantKind // optional: WD / NS / BH / debris / brown dwarf visual tweaks
+  remnantMass?: number  // optional: remnant mass in M☉ (scales the remnant)
+  oblateness?: number   // optional: R_eq / R_pol from rotation (1 = round)
+  granulation?: Granulation // optional: convection cells on the surface
+  nebula?: Nebula           // optional: planetary-nebula shell around the star
+}
+
+export type Granulation = {
+  strength: number     // 0–1, how visible the cells are (0 = radiative surface)
+  cellFraction: number // cell size as a fraction of the disc diameter
+}
+
+export type Nebula = {
+  progress: number // 0 = just ejected, 1 = dispersed
 }
 
 /**
@@ -41,24 +58,64 @@ export function StarPreview({
   color,
   glow,
   pulseSeconds,
+  pulseAmplitude,
   remnant,
+  remnantMass,
+  oblateness,
+  granulation,
+  nebula,
 }: StarPreviewProps) {
   const g = Math.max(0, Math.min(glow, 1))
 
   const isWD = remnant === "wd"
   const isNS = remnant === "ns"
   const isBH = remnant === "bh"
+  // pair-instability SN: no compact object, just a fading debris shell
+  const isNone = remnant === "none"
+  // brown dwarf: a dim, dull ball that never really shines
+  const isBD = remnant === "bd"
 
   // Visual size of the disc: default = sizePx, but neutron stars shrink to a tiny dot
   const baseSize = sizePx
+
+  // Remnant size relative to a "typical" remnant of each kind:
+  //   WD: mass–radius relation, so a 1.2 M☉ WD is ~half a 0.6 M☉ one
+  //   NS: ~12 km, slightly smaller when heavier
+  //   BH: horizon grows with mass (softened so 50 M☉ still fits)
+  let remnantScale = 1
+  if (remnantMass !== undefined) {
+    if (isWD) {
+      remnantScale = Math.min(
+        Math.max(whiteDwarfRadius(remnantMass) / whiteDwarfRadius(0.6), 0.4),
+        1.3,
+      )
+    } else if (isNS) {
+      remnantScale = neutronStarRadiusKm(remnantMass) / neutronStarRadiusKm(1.4)
+    } else if (isBH) {
+      remnantScale = Math.min(Math.max(Math.sqrt(remnantMass / 10), 0.6), 1.6)
+    }
+  }
+
   const discSize = isNS
-    ? Math.min(Math.max(baseSize * 0.22, 34), 56) // clamp to a small but visible range
-    : baseSize
+    ? Math.min(Math.max(baseSize * 0.22, 34), 56) * remnantScale // clamp to a small but visible range
+    : baseSize * remnantScale
+
+  // Fast rotators bulge at the equator; compact remnants stay round.
+  // Squash at roughly constant area so the star doesn't look bigger.
+  const flatten =
+    remnant && !isBD ? 1 : Math.max(oblateness ?? 1, 1)
+  const discWidth = discSize * Math.sqrt(flatten)
+  const discHeight = discSize / Math.sqrt(flatten)
 
   // For white dwarfs, never let the visual glow drop too low
   // so they always keep a 3D-looking disc + halo even if
   // physically very faint.
-  const gVisual = isWD ? Math.max(g, 0.35) : g
+  // Heavier (smaller, hotter) white dwarfs get a slightly stronger glow.
+  const wdGlowFloor =
+    remnantMass !== undefined
+      ? Math.min(Math.max(0.35 + 0.4 * (remnantMass - 0.6), 0.25), 0.6)
+      : 0.35
+  const gVisual = isWD ? Math.max(g, wdGlowFloor) : g
 
   // Detect dark vs light so we can make halo stronger on white backgrounds
   const prefersDark =
@@ -68,7 +125,7 @@ export function StarPreview({
 
   // Global brightness factor: dim stars ~0.6, bright stars ~1.4
   const brightness = 0.6 + 0.8 * gVisual
-  const brightnessBoost = isNS ? 1.6 : isBH ? 0.8 : 1
+  const brightnessBoost = isNS ? 1.6 : isBH ? 0.8 : isNone || isBD ? 0.7 : 1
   const finalBrightness = brightness * brightnessBoost
 
   // Halo sizes scale with luminosity, then are tweaked by remnant type
@@ -79,6 +136,8 @@ export function StarPreview({
   if (isWD) haloBoost = 0.7 // compact, faint
   else if (isNS) haloBoost = 1.4 // tiny but very intense
   else if (isBH) haloBoost = 0.5 // tight ring, not a huge glow
+  else if (isNone) haloBoost = 1.2 // diffuse debris cloud
+  else if (isBD) haloBoost = 0.4 // barely any glow at all
 
   const innerHalo = baseInnerHalo * haloBoost
   const outerHalo = baseOuterHalo * haloBoost
@@ -123,6 +182,15 @@ export function StarPreview({
       #000000 75%
     )`
     discBorder = "2px solid rgba(158, 196, 255, 0.6)"
+  } else if (isNone) {
+    // hollow, glowing debris shell with nothing at the center
+    discBackground = `radial-gradient(
+      circle at center,
+      rgba(0, 0, 0, 0) 45%,
+      rgba(255, 170, 110, 0.55) 65%,
+      rgba(255, 110, 70, 0.25) 80%,
+      rgba(0, 0, 0, 0) 100%
+    )`
   }
 
   // === THEME-AWARE HALO ALPHAS ===
@@ -175,8 +243,8 @@ export function StarPreview({
       : boxShadow
 
   const style: React.CSSProperties = {
-    width: `${discSize}px`,
-    height: `${discSize}px`,
+    width: `${discWidth}px`,
+    height: `${discHeight}px`,
     borderRadius: "50%",
 
     background: discBackground,
@@ -186,8 +254,44 @@ export function StarPreview({
     filter: `brightness(${finalBrightness})`,
   }
 
+  // --- GRANULATION (convective surfaces only) ---
+  // Sun-like stars get fine cells; supergiants a handful of huge ones.
+  // Compact remnants and debris have no convective photosphere.
+  const granulationStrength =
+    granulation && !isWD && !isNS && !isBH && !isNone
+      ? Math.max(0, Math.min(granulation.strength, 1))
+      : 0
+  const cellPx = Math.max(
+    discSize * Math.max(0, Math.min(granulation?.cellFraction ?? 0.08, 0.5)),
+    4,
+  )
+  const granulationStyle: React.CSSProperties = {
+    opacity: 0.55 * granulationStrength,
+    backgroundSize: `${cellPx}px ${cellPx}px, ${cellPx * 1.37}px ${cellPx * 1.37}px`,
+  }
+
+  // --- PLANETARY NEBULA (ejected shell) ---
+  // The shell blooms in, expands on screen and thins out as it goes; the
+  // hot central star keeps shining through the hole. Its size is fixed in
+  // pixels (the core it surrounds shrinks by orders of magnitude) and it
+  // sits beside the disc, so it neither pulses nor dims with the star.
+  const nebulaProgress =
+    nebula && !isNS && !isBH && !isNone
+      ? Math.max(0, Math.min(nebula.progress, 1))
+      : null
+  const nebulaSize = 120 + 180 * (nebulaProgress ?? 0)
+  const nebulaStyle: React.CSSProperties | null =
+    nebulaProgress !== null
+      ? {
+          width: `${nebulaSize}px`,
+          height: `${nebulaSize}px`,
+          opacity:
+            Math.min(nebulaProgress / 0.05, 1) * Math.pow(1 - nebulaProgress, 1.5),
+        }
+      : null
+
   // --- GROUND SHADOW STYLE ---
-  const shadowWidth = discSize * 1.05
+  const shadowWidth = discWidth * 1.05
   const shadowHeight = discSize * 0.30
   const centerAlpha = 0.25 + 0.35 * gVisual
 
@@ -208,7 +312,12 @@ export function StarPreview({
   return (
     <div
       className="star-preview-wrapper"
-      style={{ ["--pulse-duration" as any]: `${pulseSeconds}s` }}
+      style={
+        {
+          "--pulse-duration": `${pulseSeconds}s`,
+          "--pulse-scale": 1 + Math.max(0, Math.min(pulseAmplitude ?? 0.04, 0.3)),
+        } as React.CSSProperties
+      }
     >
       <div
         style={{
@@ -218,9 +327,16 @@ export function StarPreview({
           gap: "2.4rem",
         }}
       >
-        <div className="star-preview" style={style} />
-        {/* black holes: no cute drop shadow */}
-        {!isBH && <div className="star-ground-shadow" style={shadowStyle} />}
+        <div className="star-disc-stack">
+          {nebulaStyle && <div className="star-nebula" style={nebulaStyle} />}
+          <div className="star-preview" style={style}>
+            {granulationStrength > 0 && (
+              <div className="star-granulation" style={granulationStyle} />
+            )}
+          </div>
+        </div>
+        {/* black holes / debris: no cute drop shadow */}
+        {!isBH && !isNone && <div className="star-ground-shadow" style={shadowStyle} />}
       </div>
     </div>
   )
@@ -0,0 +1,564 @@
+// src/engine/binaryEvolution.ts
+// Two stars on a circular orbit, evolved side by side.
+//
+// Each star follows its own single-star timeline until one of them
+// swells past its Roche lobe. That first contact decides the system's
+// fate:
+//
+//   - stable transfer (radiative donor, mild mass ratio):
+//       Case A (donor on the MS)   → Algol: the donor keeps giving until
+//                                    the mass ratio has flipped
+//       Case B/C (donor evolved)   → the donor is peeled down to its
+//                                    helium core (stripped star) and the
+//                                    companion grows, spins up and is
+//                                    rejuvenated — a blue straggler if it
+//                                    ends up above the donor's birth mass
+//   - unstable transfer (convective giant donor, q ≳ 1.5, or any q > 3)
+//       → common envelope: the orbit shrinks and the envelope is ejected,
+//         or the two stars merge
+//   - transfer onto a white dwarf / neutron star / black hole
+//       → X-ray binary; the compact object barely grows
+//
+// Only the first interaction is followed; afterwards both stars evolve on
+// their (new) single-star timelines.
+
+import type { StarParams } from "./starEngine"
+import {
+  computeEvolutionTimeline,
+  type EvolutionPhase,
+  type EvolutionPhaseId,
+  type EvolutionTimeline,
+} from "./starEvolutionEngine"
+import {
+  getStarStateAtTime,
+  type StarEvolutionState,
+} from "./starEvolutionCurves"
+import { coreMassAtPhaseEnd } from "./massLoss"
+import { OMEGA_MAX } from "./rotation"
+import { classifyStructure } from "./structure"
+
+export type BinaryParams = {
+  primary: StarParams
+  secondary: StarParams
+  separationAU: number // initial orbital separation
+}
+
+export type BinaryRole = "primary" | "secondary"
+
+export type BinaryOutcome =
+  | "detached"        // never interact
+  | "algol"           // Case A, semi-detached, mass ratio reversed
+  | "strippedStar"    // Case B/C, donor left as a hot helium star
+  | "blueStraggler"   // ... and the accretor outgrew the donor's birth mass
+  | "commonEnvelope"  // unstable transfer, envelope ejected, tight orbit
+  | "merger"          // unstable transfer (or contact), one star left
+  | "xrayBinary"      // transfer onto a compact remnant
+
+export const BINARY_OUTCOME_LABELS: Record<BinaryOutcome, string> = {
+  detached: "Detached — the stars never touch",
+  algol: "Algol-type semi-detached binary",
+  strippedStar: "Stripped helium star + rejuvenated companion",
+  blueStraggler: "Stripped star + blue straggler",
+  commonEnvelope: "Common envelope → tight post-CE binary",
+  merger: "Stellar merger",
+  xrayBinary: "X-ray binary (transfer onto a compact remnant)",
+}
+
+// The first Roche-lobe overflow, if any
+export type RocheLobeEvent = {
+  tMyr: number
+  donor: BinaryRole
+  transferCase: "A" | "B" | "C"
+  massLost: number      // M☉ leaving the donor
+  massAccreted: number  // M☉ landing on the accretor
+  separationAfterAU: number
+}
+
+// One star of the pair as the UI should present it: `timeline` is the
+// stitched (before + after the interaction) timeline, good for the
+// scrubber, lifetime and remnant labels.
+export type BinaryMember = {
+  params: StarParams
+  timeline: EvolutionTimeline
+  // set when the interaction rebuilt the star with a new mass:
+  // state at time t is that of `rebuilt` at t + offsetMyr
+  rebuilt?: { params: StarParams; timeline: EvolutionTimeline; offsetMyr: number }
+  // set when the star was peeled down to its helium core
+  strippedCoreMass?: number
+  // set when the star was swallowed in a merger
+  mergedAway?: boolean
+}
+
+export type BinaryEvolution = {
+  primary: BinaryMember
+  secondary: BinaryMember
+  separationAU: number
+  event: RocheLobeEvent | null
+  outcome: BinaryOutcome
+}
+
+export type BinaryState = {
+  primary: StarEvolutionState | null   // null once merged away
+  secondary: StarEvolutionState | null
+  separationAU: number
+  rocheLobe: { primary: number; secondary: number } // R☉
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+const AU_IN_RSUN = 215.03
+
+// fraction of the transferred mass the accretor keeps when transfer is stable
+const ACCRETION_EFFICIENCY = 0.7
+
+// common-envelope efficiency × envelope structure parameter (α λ)
+const ALPHA_LAMBDA = 0.5
+
+// samples per phase when scanning for Roche-lobe overflow
+const SCAN_SAMPLES = 40
+
+const FINAL_PHASES: EvolutionPhaseId[] = [
+  "wdFinal",
+  "nsFinal",
+  "bhFinal",
+  "pisnFinal",
+  "bdFinal",
+]
+
+function isFinalPhase(id: EvolutionPhaseId): boolean {
+  return FINAL_PHASES.includes(id)
+}
+
+// convective-envelope giants respond to mass loss by *expanding*
+function hasConvectiveEnvelope(id: EvolutionPhaseId): boolean {
+  return id === "rgb" || id === "agb" || id === "rsg"
+}
+
+/**
+ * Roche-lobe radius in units of the separation (Eggleton 1983):
+ *   r_L = 0.49 q^(2/3) / (0.6 q^(2/3) + ln(1 + q^(1/3))),  q = M_star / M_other
+ */
+export function rocheLobeRadiusFraction(q: number): number {
+  const q13 = Math.cbrt(Math.max(q, 1e-4))
+  const q23 = q13 * q13
+  return (0.49 * q23) / (0.6 * q23 + Math.log(1 + q13))
+}
+
+/**
+ * Hot helium star left behind by stripping: ~sdB (0.5 M☉, ~25 L☉,
+ * ~28 kK) up to Wolf–Rayet-like cores (≳5 M☉, ~10⁴ L☉, ≳50 kK).
+ */
+function strippedStarPoint(Mc: number): { L: number; R: number; T_eff: number } {
+  const L = 25 * Math.pow(Mc / 0.5, 2.5)
+  const T_eff = 28000 * Math.pow(Mc / 0.5, 0.3)
+  const T_sun = 5772
+  const x = T_eff / T_sun
+  return { L, R: Math.sqrt(L) / (x * x), T_eff }
+}
+
+/**
+ * Where the same point in life (phase + fraction of it) falls on another
+ * timeline: used to rejuvenate / rebuild a star with a new mass.
+ */
+function matchingTimeOn(
+  timeline: EvolutionTimeline,
+  phaseId: EvolutionPhaseId,
+  phaseFrac: number,
+): number {
+  const ph = timeline.phases.find((p) => p.id === phaseId)
+  if (!ph) return 0
+  return ph.tStartMyr + clamp(phaseFrac, 0, 1) * ph.durationMyr
+}
+
+/**
+ * Glue two timelines together at tCutMyr: `before` up to the cut, then
+ * `after` shifted back by offsetMyr. A phase that straddles the cut is
+ * kept as one phase.
+ */
+function stitchTimelines(
+  before: EvolutionTimeline,
+  tCutMyr: number,
+  after: EvolutionTimeline,
+  offsetMyr: number,
+): EvolutionTimeline {
+  const pieces: { id: EvolutionPhaseId; label: string; t0: number; t1: number }[] = []
+
+  for (const ph of before.phases) {
+    if (ph.tStartMyr >= tCutMyr) break
+    pieces.push({
+      id: ph.id,
+      label: ph.label,
+      t0: ph.tStartMyr,
+      t1: Math.min(ph.tEndMyr, tCutMyr),
+    })
+  }
+
+  for (const ph of after.phases) {
+    const t0 = ph.tStartMyr - offsetMyr
+    const t1 = ph.tEndMyr - offsetMyr
+    if (t1 <= tCutMyr) continue
+
+    const last = pieces[pieces.length - 1]
+    if (last && last.id === ph.id) {
+      last.t1 = t1
+    } else {
+      pieces.push({ id: ph.id, label: ph.label, t0: Math.max(t0, tCutMyr), t1 })
+    }
+  }
+
+  const totalLifetimeMyr = pieces.length > 0 ? pieces[pieces.length - 1].t1 : 0
+
+  const phases: EvolutionPhase[] = pieces.map(({ id, label, t0, t1 }) => ({
+    id,
+    label,
+    tStartMyr: t0,
+    tEndMyr: t1,
+    durationMyr: t1 - t0,
+    fracStart: totalLifetimeMyr > 0 ? t0 / totalLifetimeMyr : 0,
+    fracEnd: totalLifetimeMyr > 0 ? t1 / totalLifetimeMyr : 0,
+  }))
+
+  return {
+    ...after,
+    initial: before.initial,
+    totalLifetimeMyr,
+    phases,
+  }
+}
+
+// Rebuild a star with a new mass, continuing from the same point in life
+function rebuildMember(
+  original: BinaryMember,
+  state: StarEvolutionState,
+  tCutMyr: number,
+  newParams: StarParams,
+): BinaryMember {
+  const timeline = computeEvolutionTimeline(newParams)
+  const offsetMyr =
+    matchingTimeOn(timeline, state.phaseId, state.phaseFrac) - tCutMyr
+
+  return {
+    params: original.params,
+    timeline: stitchTimelines(original.timeline, tCutMyr, timeline, offsetMyr),
+    rebuilt: { params: newParams, timeline, offsetMyr },
+  }
+}
+
+// ---------- Roche-lobe overflow scan ----------
+
+/**
+ * First time either star fills its Roche lobe (or null). Pre-main-sequence
+ * and remnant phases are skipped: protostars are still forming and
+ * remnants do not swell.
+ */
+function findFirstOverflow(
+  bp: BinaryParams,
+  timelines: Record<BinaryRole, EvolutionTimeline>,
+): { tMyr: number; donor: BinaryRole } | null {
+  const a = bp.separationAU * AU_IN_RSUN
+
+  // sample times: every phase of both stars
+  const times = new Set<number>()
+  for (const tl of [timelines.primary, timelines.secondary]) {
+    for (const ph of tl.phases) {
+      if (ph.id === "pms" || isFinalPhase(ph.id)) continue
+      for (let i = 0; i <= SCAN_SAMPLES; i++) {
+        times.add(ph.tStartMyr + (i / SCAN_SAMPLES) * ph.durationMyr)
+      }
+    }
+  }
+  const tEnd = Math.min(
+    timelines.primary.totalLifetimeMyr,
+    timelines.secondary.totalLifetimeMyr,
+  )
+  const sorted = [...times].filter((t) => t <= tEnd).sort((x, y) => x - y)
+
+  for (const t of sorted) {
+    const s1 = getStarStateAtTime(bp.primary, timelines.primary, t)
+    const s2 = getStarStateAtTime(bp.secondary, timelines.secondary, t)
+
+    const fills = (s: StarEvolutionState, other: StarEvolutionState) =>
+      s.phaseId !== "pms" &&
+      !isFinalPhase(s.phaseId) &&
+      s.R >= rocheLobeRadiusFraction(s.M / other.M) * a
+
+    const f1 = fills(s1, s2)
+    const f2 = fills(s2, s1)
+    if (f1 || f2) {
+      // if both fill at once, the relatively larger one is the donor
+      const donor: BinaryRole =
+        f1 && f2
+          ? s1.R / rocheLobeRadiusFraction(s1.M / s2.M) >=
+            s2.R / rocheLobeRadiusFraction(s2.M / s1.M)
+            ? "primary"
+            : "secondary"
+          : f1
+          ? "primary"
+          : "secondary"
+      return { tMyr: t, donor }
+    }
+  }
+
+  return null
+}
+
+// ---------- public API ----------
+
+/**
+ * Evolve both stars and resolve their first interaction.
+ */
+export function computeBinaryEvolution(bp: BinaryParams): BinaryEvolution {
+  const timelines: Record<BinaryRole, EvolutionTimeline> = {
+    primary: computeEvolutionTimeline(bp.primary),
+    secondary: computeEvolutionTimeline(bp.secondary),
+  }
+
+  const members: Record<BinaryRole, BinaryMember> = {
+    primary: { params: bp.primary, timeline: timelines.primary },
+    secondary: { params: bp.secondary, timeline: timelines.secondary },
+  }
+
+  const overflow = findFirstOverflow(bp, timelines)
+  if (!overflow) {
+    return {
+      ...members,
+      separationAU: bp.separationAU,
+      event: null,
+      outcome: "detached",
+    }
+  }
+
+  const { tMyr, donor } = overflow
+  const accretor: BinaryRole = donor === "primary" ? "secondary" : "primary"
+
+  const sD = getStarStateAtTime(members[donor].params, timelines[donor], tMyr)
+  const sA = getStarStateAtTime(members[accretor].params, timelines[accretor], tMyr)
+
+  const Md = sD.M
+  const Ma = sA.M
+  const q = Md / Ma
+  const transferCase: "A" | "B" | "C" =
+    sD.phaseId === "ms" ? "A" : sD.phaseId === "agb" ? "C" : "B"
+
+  // helium core the donor is peeled down to
+  const Mc = Math.min(
+    coreMassAtPhaseEnd(members[donor].params.mass, sD.phaseId, timelines[donor].remnant),
+    Md,
+  )
+
+  const accretorIsRemnant = isFinalPhase(sA.phaseId)
+  const unstable =
+    !accretorIsRemnant &&
+    (q > 3 || (hasConvectiveEnvelope(sD.phaseId) && q > 1.5))
+
+  // the two stars already touch on the ZAMS: contact → merger
+  const contactFromBirth = sD.phaseId === "ms" && sD.phaseFrac < 0.02
+
+  let outcome: BinaryOutcome
+  let massLost: number
+  let massAccreted: number
+  let separationAfterAU: number
+
+  if (unstable || contactFromBirth) {
+    // --- common envelope: orbital energy unbinds the envelope ---
+    const Menv = Math.max(Md - Mc, 0)
+    const rL = rocheLobeRadiusFraction(q)
+    const aFinal =
+      bp.separationAU *
+      (Mc / Md) /
+      (1 + (2 * Menv) / (ALPHA_LAMBDA * rL * Ma))
+
+    // merge if the accretor does not fit inside its Roche lobe in the new orbit
+    const aFinalRsun = aFinal * AU_IN_RSUN
+    const accretorFits =
+      sA.R < rocheLobeRadiusFraction(Ma / Math.max(Mc, 1e-3)) * aFinalRsun
+
+    if (contactFromBirth || !accretorFits) {
+      // one star is left: it keeps the donor's core (and evolutionary
+      // stage), plus most of both envelopes; it lives in the primary slot
+      outcome = "merger"
+      massLost = Md
+      massAccreted = 0.9 * Md
+      separationAfterAU = 0
+
+      const mergedParams: StarParams = {
+        ...members.primary.params,
+        mass: Ma + massAccreted,
+        rotation: OMEGA_MAX * 0.9,
+      }
+      const merged = rebuildMember(members.primary, sD, tMyr, mergedParams)
+      members.primary = merged
+      members.secondary = { ...members.secondary, mergedAway: true }
+    } else {
+      outcome = "commonEnvelope"
+      massLost = Menv
+      massAccreted = 0
+      separationAfterAU = aFinal
+      members[donor] = { ...members[donor], strippedCoreMass: Mc }
+    }
+  } else if (accretorIsRemnant) {
+    // --- X-ray binary: a compact object can swallow very little ---
+    outcome = "xrayBinary"
+    massLost = Math.max(Md - Mc, 0)
+    massAccreted = 0
+    // the spilled gas leaves the system: a ∝ 1 / (M_d + M_a)
+    separationAfterAU = (bp.separationAU * (Md + Ma)) / (Mc + Ma)
+    members[donor] = { ...members[donor], strippedCoreMass: Mc }
+  } else {
+    const beta = ACCRETION_EFFICIENCY
+
+    if (transferCase === "A") {
+      // keep giving until the donor is ~0.6× the (new) accretor mass
+      massLost = clamp((Md - 0.6 * Ma) / (1 + 0.6 * beta), 0, Md - Mc)
+      outcome = "algol"
+    } else {
+      // peel the donor down to its helium core
+      massLost = Math.max(Md - Mc, 0)
+      outcome = "strippedStar"
+    }
+    massAccreted = beta * massLost
+
+    const MdAfter = Md - massLost
+    const MaAfter = Ma + massAccreted
+
+    // angular momentum roughly conserved: a ∝ (M_d M_a)^-2
+    separationAfterAU =
+      bp.separationAU * Math.pow((Md * Ma) / (MdAfter * MaAfter), 2)
+
+    // accretor: more massive, spun up to near break-up, rejuvenated
+    members[accretor] = rebuildMember(members[accretor], sA, tMyr, {
+      ...members[accretor].params,
+      mass: members[accretor].params.mass + massAccreted,
+      rotation: OMEGA_MAX * 0.9,
+    })
+
+    if (transferCase === "A") {
+      // an Algol donor is still a hydrogen-burning star, just lighter
+      members[donor] = rebuildMember(members[donor], sD, tMyr, {
+        ...members[donor].params,
+        mass: members[donor].params.mass - massLost,
+      })
+    } else {
+      members[donor] = { ...members[donor], strippedCoreMass: Mc }
+
+      // on the MS and now heavier than the donor was at birth: it sits
+      // above the turn-off like a star that should already have evolved
+      const donorBirthMass = members[donor].params.mass
+      if (sA.phaseId === "ms" && MaAfter > donorBirthMass) {
+        outcome = "blueStraggler"
+      }
+    }
+  }
+
+  return {
+    ...members,
+    separationAU: bp.separationAU,
+    event: {
+      tMyr,
+      donor,
+      transferCase,
+      massLost,
+      massAccreted,
+      separationAfterAU,
+    },
+    outcome,
+  }
+}
+
+// State of one member at time t (null once merged away)
+function memberStateAtTime(
+  member: BinaryMember,
+  event: RocheLobeEvent | null,
+  tMyr: number,
+): StarEvolutionState | null {
+  const before = !event || tMyr < event.tMyr
+
+  if (before) {
+    return getStarStateAtTime(member.params, member.timeline, tMyr)
+  }
+
+  if (member.mergedAway) return null
+
+  if (member.rebuilt) {
+    const { params, timeline, offsetMyr } = member.rebuilt
+    const s = getStarStateAtTime(params, timeline, tMyr + offsetMyr)
+    const total = member.timeline.totalLifetimeMyr
+    return {
+      ...s,
+      tMyr,
+      fracTotal: total > 0 ? clamp(tMyr / total, 0, 1) : 0,
+    }
+  }
+
+  const s = getStarStateAtTime(member.params, member.timeline, tMyr)
+
+  // stripped stars shine as bare helium cores until they die as usual
+  if (member.strippedCoreMass !== undefined && !isFinalPhase(s.phaseId)) {
+    const he = strippedStarPoint(member.strippedCoreMass)
+    return {
+      ...s,
+      phaseLabel: "Stripped helium star",
+      L: he.L,
+      R: he.R,
+      T_eff: he.T_eff,
+      M: member.strippedCoreMass,
+      Mdot: 0,
+      logL: Math.log10(he.L),
+      logT: Math.log10(he.T_eff),
+      // the envelope is gone: the surface is the old He core
+      composition: {
+        ...s.composition,
+        heCoreMass: member.strippedCoreMass,
+        surface: {
+          ...s.composition.surface,
+          X: 0,
+          Y: 1 - s.composition.surface.Z,
+          CtoN: 0.05,
+        },
+      },
+      structure: classifyStructure({
+        phaseId: s.phaseId,
+        phaseFrac: s.phaseFrac,
+        M: member.strippedCoreMass,
+        T_eff: he.T_eff,
+        coreMass: member.strippedCoreMass,
+      }),
+    }
+  }
+
+  return s
+}
+
+/**
+ * Both stars (and the orbit) at time tMyr.
+ */
+export function getBinaryStateAtTime(
+  binary: BinaryEvolution,
+  tMyr: number,
+): BinaryState {
+  const primary = memberStateAtTime(binary.primary, binary.event, tMyr)
+  const secondary = memberStateAtTime(binary.secondary, binary.event, tMyr)
+
+  const separationAU =
+    binary.event && tMyr >= binary.event.tMyr
+      ? binary.event.separationAfterAU
+      : binary.separationAU
+  const a = separationAU * AU_IN_RSUN
+
+  const lobe = (s: StarEvolutionState | null, other: StarEvolutionState | null) =>
+    s && other ? rocheLobeRadiusFraction(s.M / other.M) * a : Infinity
+
+  return {
+    primary,
+    secondary,
+    separationAU,
+    rocheLobe: {
+      primary: lobe(primary, secondary),
+      secondary: lobe(secondary, primary),
+    },
+  }
+}
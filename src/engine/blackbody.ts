@@ -0,0 +1,88 @@
+// src/engine/blackbody.ts
+// Planck spectra for the spectrum panel. Stars are treated as perfect
+// blackbodies at T_eff: the shape of the spectrum is B_λ(T), its overall
+// height scales with the emitting area, L_λ ∝ R² B_λ(T).
+
+// physical constants (SI)
+const H = 6.62607015e-34   // Planck, J s
+const C = 2.99792458e8     // speed of light, m/s
+const K_B = 1.380649e-23   // Boltzmann, J/K
+
+// Wien's displacement constant in nm·K
+export const WIEN_B_NM_K = 2.897771955e6
+
+// What the human eye sees, in nm
+export const VISIBLE_BAND_NM = { min: 380, max: 750 }
+
+export type SpectrumSample = {
+  lambdaNm: number
+  value: number
+}
+
+/**
+ * Planck spectral radiance B_λ(T) in W m⁻³ sr⁻¹ at wavelength λ (nm).
+ */
+export function planckLambda(lambdaNm: number, T: number): number {
+  const lambda = lambdaNm * 1e-9
+  const x = (H * C) / (lambda * K_B * Math.max(T, 1))
+  // far Wien tail: exp overflows long before the value matters
+  if (x > 700) return 0
+  return (2 * H * C * C) / Math.pow(lambda, 5) / Math.expm1(x)
+}
+
+/**
+ * Peak wavelength in nm (Wien's law, λ_max T = b).
+ */
+export function wienPeakNm(T: number): number {
+  return WIEN_B_NM_K / Math.max(T, 1)
+}
+
+/**
+ * Luminosity density L_λ ∝ R² B_λ(T), in units where the Sun's peak is 1.
+ */
+export function luminosityDensity(lambdaNm: number, T: number, R: number): number {
+  const T_sun = 5772
+  const sunPeak = planckLambda(wienPeakNm(T_sun), T_sun)
+  return (R * R * planckLambda(lambdaNm, T)) / sunPeak
+}
+
+/**
+ * L_λ sampled on a log-spaced wavelength grid.
+ */
+export function sampleSpectrum(
+  T: number,
+  R: number,
+  lambdaMinNm: number,
+  lambdaMaxNm: number,
+  n = 160,
+): SpectrumSample[] {
+  const logMin = Math.log10(lambdaMinNm)
+  const logMax = Math.log10(lambdaMaxNm)
+  const samples: SpectrumSample[] = []
+  for (let i = 0; i < n; i++) {
+    const lambdaNm = Math.pow(10, logMin + ((logMax - logMin) * i) / (n - 1))
+    samples.push({ lambdaNm, value: luminosityDensity(lambdaNm, T, R) })
+  }
+  return samples
+}
+
+/**
+ * Fraction of the total output that falls in the visible band,
+ * ∫ B_λ dλ over 380–750 nm divided by σT⁴/π.
+ */
+export function visibleFraction(T: number): number {
+  const sigma = 5.670374419e-8
+  const total = (sigma * Math.pow(Math.max(T, 1), 4)) / Math.PI
+
+  // trapezoid in λ; B_λ is smooth over the band
+  const n = 64
+  const { min, max } = VISIBLE_BAND_NM
+  const dLambda = ((max - min) / n) * 1e-9
+  let sum = 0
+  for (let i = 0; i <= n; i++) {
+    const w = i === 0 || i === n ? 0.5 : 1
+    sum += w * planckLambda(min + ((max - min) * i) / n, T)
+  }
+
+  return Math.min((sum * dLambda) / total, 1)
+}
@@ -0,0 +1,251 @@
+// src/engine/cluster.ts
+// Population synthesis: a star cluster born all at once.
+//
+// N masses are drawn from an initial mass function, every star gets the
+// cluster's metallicity, and each follows its own timeline. Seen at one
+// age, the cluster shows
+//
+//   - a main sequence that is eaten away from the top (the turnoff)
+//   - subgiants / red giants / the clump just above the turnoff mass
+//   - a white-dwarf cooling sequence that grows and fades with age
+//
+// IMFs (dN/dM ∝ M^−α):
+//   - Salpeter (1955): α = 2.35 everywhere
+//   - Kroupa (2001):   α = 0.3 below 0.08 M☉, 1.3 to 0.5 M☉, 2.3 above
+
+import type { StarParams } from "./starEngine"
+import {
+  computeEvolutionTimeline,
+  type EvolutionPhaseId,
+  type EvolutionTimeline,
+  type RemnantKind,
+} from "./starEvolutionEngine"
+import { getStarStateAtTime } from "./starEvolutionCurves"
+import { whiteDwarfCoolingState } from "./remnants"
+import { logSurfaceGravity } from "./derivedQuantities"
+
+export type IMFKind = "salpeter" | "kroupa"
+
+export const IMF_LABELS: Record<IMFKind, string> = {
+  salpeter: "Salpeter",
+  kroupa: "Kroupa",
+}
+
+export type ClusterParams = {
+  N: number
+  imf: IMFKind
+  metallicity: number
+  cnoFraction: number
+  mMin: number // M☉
+  mMax: number // M☉
+  seed: number // same seed → same cluster
+}
+
+export type ClusterMember = {
+  params: StarParams
+  timeline: EvolutionTimeline
+}
+
+export type Cluster = {
+  metallicity: number
+  cnoFraction: number
+  members: ClusterMember[] // sorted by initial mass
+}
+
+// one plotted cluster member at a given age
+export type ClusterStar = {
+  mass: number              // initial mass, M☉
+  phaseId: EvolutionPhaseId // wdFinal for white dwarfs
+  logT: number
+  logL: number
+  logg: number
+}
+
+export type ClusterSnapshot = {
+  ageMyr: number
+  stars: ClusterStar[]     // everything with a photosphere to plot
+  turnoffMass: number      // heaviest star still on the main sequence
+  counts: {
+    preMainSequence: number // still contracting onto the ZAMS
+    mainSequence: number
+    brownDwarfs: number
+    evolved: number        // subgiants and beyond, still shining stars
+    whiteDwarfs: number
+    dark: number           // neutron stars, black holes, PISN debris
+  }
+}
+
+// ---------- IMF sampling ----------
+
+type PowerLawSegment = { m0: number; m1: number; alpha: number }
+
+const IMF_SEGMENTS: Record<IMFKind, PowerLawSegment[]> = {
+  salpeter: [{ m0: 0.01, m1: 300, alpha: 2.35 }],
+  kroupa: [
+    { m0: 0.01, m1: 0.08, alpha: 0.3 },
+    { m0: 0.08, m1: 0.5, alpha: 1.3 },
+    { m0: 0.5, m1: 300, alpha: 2.3 },
+  ],
+}
+
+// ∫ M^−α dM from a to b
+function powerLawIntegral(a: number, b: number, alpha: number): number {
+  if (Math.abs(alpha - 1) < 1e-9) return Math.log(b / a)
+  const k = 1 - alpha
+  return (Math.pow(b, k) - Math.pow(a, k)) / k
+}
+
+// inverse CDF of M^−α on [a, b]
+function powerLawInverse(a: number, b: number, alpha: number, u: number): number {
+  if (Math.abs(alpha - 1) < 1e-9) return a * Math.pow(b / a, u)
+  const k = 1 - alpha
+  const ak = Math.pow(a, k)
+  return Math.pow(ak + u * (Math.pow(b, k) - ak), 1 / k)
+}
+
+// mulberry32: small, fast, seedable
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Draw N masses (M☉) from the IMF between mMin and mMax.
+ */
+export function sampleIMF(
+  imf: IMFKind,
+  N: number,
+  mMin: number,
+  mMax: number,
+  random: () => number = Math.random,
+): number[] {
+  // the IMF's segments clipped to [mMin, mMax], with continuous dN/dM
+  const segments: (PowerLawSegment & { weight: number })[] = []
+  let norm = 1 // dN/dM prefactor that keeps the broken power law continuous
+  for (const [i, seg] of IMF_SEGMENTS[imf].entries()) {
+    if (i > 0) {
+      const prev = IMF_SEGMENTS[imf][i - 1]
+      norm *= Math.pow(seg.m0, seg.alpha - prev.alpha)
+    }
+    const a = Math.max(seg.m0, mMin)
+    const b = Math.min(seg.m1, mMax)
+    if (b <= a) continue
+    segments.push({ m0: a, m1: b, alpha: seg.alpha, weight: norm * powerLawIntegral(a, b, seg.alpha) })
+  }
+  const total = segments.reduce((sum, seg) => sum + seg.weight, 0)
+  if (segments.length === 0 || total <= 0) return []
+
+  const masses: number[] = []
+  for (let n = 0; n < N; n++) {
+    let pick = random() * total
+    let seg = segments[segments.length - 1]
+    for (const s of segments) {
+      if (pick < s.weight) {
+        seg = s
+        break
+      }
+      pick -= s.weight
+    }
+    masses.push(powerLawInverse(seg.m0, seg.m1, seg.alpha, random()))
+  }
+  return masses
+}
+
+// ---------- public API ----------
+
+// timelines for a set of initial masses at one composition
+function clusterFromMasses(
+  masses: number[],
+  metallicity: number,
+  cnoFraction: number,
+): Cluster {
+  const members = [...masses]
+    .sort((a, b) => a - b)
+    .map((mass) => {
+      const params: StarParams = { mass, metallicity, cnoFraction, rotation: 0 }
+      return { params, timeline: computeEvolutionTimeline(params) }
+    })
+  return { metallicity, cnoFraction, members }
+}
+
+/**
+ * Draw a cluster from the IMF and compute every member's timeline
+ * (the expensive part; do it once per cluster, then take snapshots).
+ */
+export function generateCluster(params: ClusterParams): Cluster {
+  const random = seededRandom(params.seed)
+  const masses = sampleIMF(params.imf, params.N, params.mMin, params.mMax, random)
+  return clusterFromMasses(masses, params.metallicity, params.cnoFraction)
+}
+
+// compact remnants with nothing to plot on an HR diagram
+const DARK_REMNANTS: RemnantKind[] = ["ns", "bh", "none"]
+
+/**
+ * The whole cluster at one age. Stars that have reached their final
+ * phase are replaced by their remnant: white dwarfs on a Mestel cooling
+ * track, neutron stars and black holes only counted.
+ */
+export function clusterAtAge(cluster: Cluster, ageMyr: number): ClusterSnapshot {
+  const stars: ClusterStar[] = []
+  const counts = {
+    preMainSequence: 0,
+    mainSequence: 0,
+    brownDwarfs: 0,
+    evolved: 0,
+    whiteDwarfs: 0,
+    dark: 0,
+  }
+  let turnoffMass = 0
+
+  for (const { params, timeline } of cluster.members) {
+    const finalPhase = timeline.phases[timeline.phases.length - 1]
+    const dead =
+      timeline.remnant !== "bd" && finalPhase !== undefined && ageMyr >= finalPhase.tStartMyr
+
+    if (dead) {
+      if (DARK_REMNANTS.includes(timeline.remnant)) {
+        counts.dark++
+        continue
+      }
+      const wd = whiteDwarfCoolingState(timeline.remnantMass, ageMyr - finalPhase.tStartMyr)
+      counts.whiteDwarfs++
+      stars.push({
+        mass: params.mass,
+        phaseId: "wdFinal",
+        logT: Math.log10(wd.T_eff),
+        logL: Math.log10(wd.L),
+        logg: logSurfaceGravity(timeline.remnantMass, wd.R),
+      })
+      continue
+    }
+
+    const state = getStarStateAtTime(params, timeline, ageMyr)
+    if (state.phaseId === "ms") {
+      counts.mainSequence++
+      turnoffMass = Math.max(turnoffMass, params.mass)
+    } else if (timeline.remnant === "bd") {
+      // contracting or cooling, a brown dwarf never joins the MS
+      counts.brownDwarfs++
+    } else if (state.phaseId === "pms") {
+      counts.preMainSequence++
+    } else {
+      counts.evolved++
+    }
+    stars.push({
+      mass: params.mass,
+      phaseId: state.phaseId,
+      logT: Math.log10(Math.max(state.T_eff, 1)),
+      logL: Math.log10(Math.max(state.L, 1e-7)),
+      logg: logSurfaceGravity(state.M, state.R),
+    })
+  }
+
+  return { ageMyr, stars, turnoffMass, counts }
+}
@@ -0,0 +1,84 @@
+// src/engine/clusterDating.ts
+// The cluster age-dating challenge: a hidden age and metallicity, a
+// population drawn from them, and a score for the player's estimate.
+//
+// Ages are judged in dex (log10 of the ratio), the way they are quoted
+// for real clusters: ±0.05 dex is a very good fit, ±0.3 dex is off by
+// a factor of two. Metallicity matters less but shifts the turnoff, so
+// it earns a smaller share of the points.
+
+export type ClusterSecret = {
+  ageMyr: number
+  metallicity: number
+  seed: number // IMF draw
+}
+
+export type ClusterGuess = {
+  ageMyr: number
+  metallicity: number
+}
+
+export type ClusterDatingResult = {
+  truth: ClusterSecret
+  guess: ClusterGuess
+  ageErrorDex: number // log10(guess / truth), signed
+  score: number       // 0–100
+  verdict: string
+}
+
+// metallicities the game draws from (and the player can pick)
+export const CLUSTER_METALLICITIES = [0.001, 0.004, 0.008, 0.02, 0.03]
+
+// hidden ages: log-uniform, from a young open cluster to a globular
+export const CLUSTER_AGE_MIN_MYR = 50
+export const CLUSTER_AGE_MAX_MYR = 12_000
+
+const AGE_POINTS = 80
+const METALLICITY_POINTS = 20
+const AGE_TOLERANCE_DEX = 0.15 // error at which the age points fall to 1/e
+
+/**
+ * Pick the hidden age, metallicity and IMF seed for a new round.
+ */
+export function pickClusterSecret(random: () => number = Math.random): ClusterSecret {
+  const logMin = Math.log10(CLUSTER_AGE_MIN_MYR)
+  const logMax = Math.log10(CLUSTER_AGE_MAX_MYR)
+  return {
+    ageMyr: Math.pow(10, logMin + random() * (logMax - logMin)),
+    metallicity:
+      CLUSTER_METALLICITIES[Math.floor(random() * CLUSTER_METALLICITIES.length)],
+    seed: Math.floor(random() * 1e9),
+  }
+}
+
+/**
+ * Score an age / metallicity estimate against the hidden truth.
+ */
+export function scoreClusterGuess(
+  truth: ClusterSecret,
+  guess: ClusterGuess,
+): ClusterDatingResult {
+  const ageErrorDex = Math.log10(guess.ageMyr / truth.ageMyr)
+  const agePoints =
+    AGE_POINTS * Math.exp(-Math.pow(ageErrorDex / AGE_TOLERANCE_DEX, 2))
+
+  // full marks for the right metallicity, half for a neighbouring one
+  const steps = Math.abs(
+    CLUSTER_METALLICITIES.indexOf(guess.metallicity) -
+      CLUSTER_METALLICITIES.indexOf(truth.metallicity),
+  )
+  const metallicityPoints =
+    steps === 0 ? METALLICITY_POINTS : steps === 1 ? METALLICITY_POINTS / 2 : 0
+
+  const score = Math.round(agePoints + metallicityPoints)
+  const verdict =
+    score >= 90
+      ? "Publishable: a textbook turnoff fit"
+      : score >= 70
+      ? "Good fit: within the usual error bars"
+      : score >= 40
+      ? "Close, but the turnoff disagrees"
+      : "Off: check where the main sequence ends"
+
+  return { truth, guess, ageErrorDex, score, verdict }
+}
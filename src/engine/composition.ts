@@ -0,0 +1,418 @@
+// src/engine/composition.ts
+// Chemical bookkeeping along the evolution: what the core is made of,
+// how big the hydrogen-free (He) and helium-free (C/O) cores are, and
+// what an observer would see at the surface.
+//
+//   - main sequence: core X falls from X₀ to 0, the He core appears
+//   - core He burning: 3α makes carbon, ¹²C(α,γ)¹⁶O turns part of it into
+//     oxygen (more so in heavier cores)
+//   - surface: rotational mixing and first dredge-up bring CN-processed
+//     material up (C/N drops, Y rises), second dredge-up adds helium in
+//     4–8 M☉ stars, third dredge-up makes carbon stars at 1.5–4 M☉ while
+//     hot-bottom burning above ~4 M☉ turns that carbon into nitrogen,
+//     LBV eruptions expose CNO-processed layers, Wolf–Rayet winds strip
+//     the hydrogen off (WN, then WC)
+//
+// Like the HR curves, everything is keypoints + interpolation on the
+// phase fraction: the numbers are textbook-typical, not a network.
+
+import type { StarParams, InitialStarState } from "./starEngine"
+import type {
+  EvolutionPhase,
+  EvolutionPhaseId,
+  EvolutionTimeline,
+  RemnantKind,
+} from "./starEvolutionEngine"
+import { coreMassAtPhaseEnd } from "./massLoss"
+import { clampStellarMass } from "./massRegimes"
+import { rotationalNitrogenFactor } from "./rotation"
+
+// Mass fractions in the centre (sum to 1). C and O are what helium
+// burning has made; "metals" are the birth metals plus, once a massive
+// star has collapsed, everything burnt past oxygen.
+export type CoreAbundances = {
+  X: number
+  Y: number
+  C: number
+  O: number
+  metals: number
+}
+
+// What a spectrum of the photosphere would show
+export type SurfaceAbundances = {
+  X: number
+  Y: number
+  Z: number
+  CtoN: number // number ratio, ~4 at birth
+  CtoO: number // number ratio, ~0.55 at birth; > 1 is a carbon star
+}
+
+// Which nuclear source powers the star right now
+export type BurningStage =
+  | "contraction" // protostar / brown dwarf: gravity only
+  | "coreH"
+  | "shellH"      // subgiant, red giant, blue supergiant: inert He core
+  | "coreHe"
+  | "shellHe"     // AGB: inert C/O core
+  | "none"        // remnant
+
+export type CompositionState = {
+  core: CoreAbundances
+  heCoreMass: number // M☉ without hydrogen
+  coCoreMass: number // M☉ without helium
+  surface: SurfaceAbundances
+  burning: BurningStage
+  // the core fuel gauge: which fuel, and how much of it is left (0–1)
+  fuel: { element: "H" | "He" | null; remaining: number }
+}
+
+// Solar-neighbourhood number ratios at birth (Asplund et al. 2009)
+const C_TO_N_BIRTH = 3.9
+const C_TO_O_BIRTH = 0.55
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+function smoothstep(t: number): number {
+  const x = clamp(t, 0, 1)
+  return x * x * (3 - 2 * x)
+}
+
+function isFinal(id: EvolutionPhaseId): boolean {
+  return (
+    id === "wdFinal" ||
+    id === "nsFinal" ||
+    id === "bhFinal" ||
+    id === "pisnFinal" ||
+    id === "bdFinal"
+  )
+}
+
+// Phases that burn helium in the core. A massive star splits core He
+// burning over two of them (RSG or LBV, then Wolf–Rayet).
+function isCoreHeliumBurning(id: EvolutionPhaseId): boolean {
+  return id === "hb" || id === "rsg" || id === "lbv" || id === "wr"
+}
+
+// Fraction (0–1) of core He burning done at fraction f of phase `id`,
+// measured in time across all of the star's He-burning phases
+function heliumBurningProgress(
+  phases: EvolutionPhase[],
+  id: EvolutionPhaseId,
+  f: number,
+): number {
+  const span = phases.filter((ph) => isCoreHeliumBurning(ph.id))
+  const ph = phases.find((p) => p.id === id)
+  if (!ph || span.length === 0) return f
+  const start = span[0].tStartMyr
+  const end = span[span.length - 1].tEndMyr
+  if (end <= start) return f
+  return clamp((ph.tStartMyr + f * ph.durationMyr - start) / (end - start), 0, 1)
+}
+
+// ---------- cores ----------
+
+type CoreMasses = { he: number; co: number }
+
+// He and C/O core masses at the end of a phase. Core He burning (hb,
+// or rsg / lbv / wr for massive stars) leaves a C/O core of about half
+// the He core, built up with `heDone`, the share of He burning done by
+// the end of the phase; the AGB grows it to the white-dwarf mass.
+function coreMassesAtPhaseEnd(
+  M0: number,
+  id: EvolutionPhaseId,
+  remnant: RemnantKind,
+  heDone = 1,
+): CoreMasses {
+  const he = coreMassAtPhaseEnd(M0, id, remnant)
+  const heGiant = coreMassAtPhaseEnd(M0, "rgb", remnant)
+  switch (id) {
+    case "pms":
+    case "ms":
+    case "subgiant":
+    case "rgb":
+    case "bsg":
+      return { he, co: 0 }
+    case "hb":
+    case "rsg":
+    case "lbv":
+    case "wr":
+      return { he, co: 0.5 * he * heDone }
+    default:
+      // AGB and the remnant slots: the white dwarf is the whole C/O core,
+      // massive stars keep ~80% of the He core as C/O (and beyond)
+      return {
+        he: Math.max(he, heGiant),
+        co: remnant === "wd" ? he : 0.8 * heGiant,
+      }
+  }
+}
+
+// ---------- surface keypoints ----------
+
+// First dredge-up strength: stronger for heavier giants
+function firstDredgeUp(M0: number): { dY: number; CtoN: number } {
+  const w = clamp((M0 - 0.8) / 2.2, 0, 1)
+  return { dY: lerp(0.015, 0.04, w), CtoN: lerp(2.0, 1.3, w) }
+}
+
+// Third dredge-up (carbon stars) and hot-bottom burning windows
+function agbMixing(M0: number, Z: number): { carbonGain: number; hbb: number } {
+  const tdu = clamp((M0 - 1.3) / 0.7, 0, 1) * clamp((4.5 - M0) / 1.0, 0, 1)
+  // metal-poor envelopes have less oxygen, so the same carbon counts more
+  const zBoost = Math.pow(0.02 / Math.max(Z, 0.002), 0.4)
+  return {
+    carbonGain: Math.min(1.0 * tdu * zBoost, 3),
+    // (red supergiants above ~9 M☉ have no thermal pulses at all)
+    hbb: clamp((M0 - 4) / 1.5, 0, 1) * clamp((9 - M0) / 1.5, 0, 1),
+  }
+}
+
+/**
+ * Surface abundances at the end of a phase, given those at its start.
+ */
+function surfaceAtPhaseEnd(
+  start: SurfaceAbundances,
+  id: EvolutionPhaseId,
+  M0: number,
+  Z: number,
+  omega: number,
+): SurfaceAbundances {
+  switch (id) {
+    case "ms": {
+      // rotational mixing: CN-cycled nitrogen leaks up during the MS
+      return { ...start, CtoN: start.CtoN / rotationalNitrogenFactor(omega, M0) }
+    }
+    case "rgb":
+    case "rsg": {
+      const fdu = firstDredgeUp(M0)
+      const X = start.X - fdu.dY
+      return {
+        ...start,
+        X,
+        Y: 1 - X - start.Z,
+        CtoN: Math.min(start.CtoN, fdu.CtoN),
+      }
+    }
+    case "agb": {
+      // second dredge-up (4–8 M☉): the He-rich layer is mixed up
+      const dY = 0.08 * clamp((M0 - 4) / 2, 0, 1) * clamp((10 - M0) / 2, 0, 1)
+      const X = start.X - dY
+      const { carbonGain, hbb } = agbMixing(M0, Z)
+      const CtoO = (start.CtoO + carbonGain) / (1 + 0.8 * hbb)
+      const CtoN = (start.CtoN * (CtoO / start.CtoO)) / (1 + 9 * hbb)
+      return { ...start, X, Y: 1 - X - start.Z, CtoO, CtoN }
+    }
+    case "lbv": {
+      // eruptions peel down to CNO-processed layers: He-rich, N-rich
+      const X = 0.6 * start.X
+      return { ...start, X, Y: 1 - X - start.Z, CtoN: Math.min(start.CtoN, 0.1) }
+    }
+    case "wr": {
+      // hydrogen gone, He-burning products on show (WC)
+      return { ...start, X: 0, Y: 1 - start.Z, CtoN: 50, CtoO: 3 }
+    }
+    default:
+      return start
+  }
+}
+
+// Within a phase. Most changes are gradual; the WR sequence first
+// strips H (WN, C/N tiny) and only then uncovers carbon (WC).
+function surfaceInPhase(
+  start: SurfaceAbundances,
+  end: SurfaceAbundances,
+  id: EvolutionPhaseId,
+  f: number,
+): SurfaceAbundances {
+  if (id === "wr") {
+    const strip = smoothstep(f / 0.6)
+    const wc = smoothstep((f - 0.7) / 0.3)
+    const X = lerp(start.X, 0, strip)
+    return {
+      X,
+      Y: 1 - X - start.Z,
+      Z: start.Z,
+      CtoN: wc > 0 ? lerp(0.05, end.CtoN, wc) : lerp(start.CtoN, 0.05, strip),
+      CtoO: lerp(start.CtoO, end.CtoO, wc),
+    }
+  }
+
+  // first dredge-up happens as the convective envelope deepens at the
+  // base of the giant branch; the AGB mixing in the thermal pulses later on
+  const w =
+    id === "rgb" || id === "rsg"
+      ? smoothstep(f / 0.3)
+      : id === "agb"
+      ? smoothstep((f - 0.3) / 0.7)
+      : f
+  return {
+    X: lerp(start.X, end.X, w),
+    Y: lerp(start.Y, end.Y, w),
+    Z: start.Z,
+    CtoN: lerp(start.CtoN, end.CtoN, w),
+    CtoO: lerp(start.CtoO, end.CtoO, w),
+  }
+}
+
+// ---------- public API ----------
+
+/**
+ * Composition of the star at phase `id`, fraction `phaseFrac` through it.
+ * `M` is the current (post-wind) mass, which caps the core masses.
+ */
+export function compositionAtPhase(
+  params: StarParams,
+  initial: InitialStarState,
+  timeline: Pick<EvolutionTimeline, "phases" | "remnant" | "regime">,
+  id: EvolutionPhaseId,
+  phaseFrac: number,
+  M: number,
+): CompositionState {
+  const M0 = clampStellarMass(params.mass)
+  const Z = initial.Z
+  const X0 = initial.X
+  const f = clamp(phaseFrac, 0, 1)
+
+  const birthCore: CoreAbundances = { X: X0, Y: initial.Y, C: 0, O: 0, metals: Z }
+  const birthSurface: SurfaceAbundances = {
+    X: X0,
+    Y: initial.Y,
+    Z,
+    CtoN: C_TO_N_BIRTH,
+    CtoO: C_TO_O_BIRTH,
+  }
+
+  // Brown dwarfs never fuse hydrogen: nothing changes
+  if (timeline.regime === "brownDwarf") {
+    return {
+      core: birthCore,
+      heCoreMass: 0,
+      coCoreMass: 0,
+      surface: birthSurface,
+      burning: id === "pms" ? "contraction" : "none",
+      fuel: { element: "H", remaining: 1 },
+    }
+  }
+
+  // walk the phases this star visits, carrying surface + cores forward
+  let surface = birthSurface
+  let cores: CoreMasses = { he: 0, co: 0 }
+  for (const ph of timeline.phases) {
+    if (ph.id === id) break
+    if (!isFinal(ph.id)) {
+      surface = surfaceAtPhaseEnd(surface, ph.id, M0, Z, params.rotation)
+      cores = coreMassesAtPhaseEnd(
+        M0,
+        ph.id,
+        timeline.remnant,
+        heliumBurningProgress(timeline.phases, ph.id, 1),
+      )
+    }
+  }
+
+  // core He burning ends with this much oxygen in the C/O mix
+  const oShareEnd = lerp(0.6, 0.85, clamp(Math.log10(M0) / Math.log10(25), 0, 1))
+  const Yign = 1 - Z
+  const heBurnt = (g: number): CoreAbundances => {
+    const burnt = Yign * g
+    const oShare = oShareEnd * g * g
+    return {
+      X: 0,
+      Y: Yign - burnt,
+      C: burnt * (1 - oShare),
+      O: burnt * oShare,
+      metals: Z,
+    }
+  }
+
+  let core: CoreAbundances
+  let burning: BurningStage
+  let fuel: CompositionState["fuel"]
+  let heCore = cores.he
+  let coCore = cores.co
+  let surf = surface
+
+  if (isFinal(id)) {
+    // the last fuel is spent; collapsed cores have burnt past oxygen
+    core =
+      timeline.remnant === "wd"
+        ? heBurnt(1)
+        : { X: 0, Y: 0, C: 0, O: 0, metals: 1 }
+    burning = "none"
+    fuel = { element: null, remaining: 0 }
+  } else {
+    const end = coreMassesAtPhaseEnd(
+      M0,
+      id,
+      timeline.remnant,
+      heliumBurningProgress(timeline.phases, id, 1),
+    )
+    const endSurface = surfaceAtPhaseEnd(surface, id, M0, Z, params.rotation)
+    surf = surfaceInPhase(surface, endSurface, id, f)
+
+    switch (id) {
+      case "pms":
+        core = birthCore
+        burning = "contraction"
+        fuel = { element: "H", remaining: 1 }
+        break
+      case "ms": {
+        const Xc = X0 * (1 - f)
+        core = { X: Xc, Y: 1 - Xc - Z, C: 0, O: 0, metals: Z }
+        burning = "coreH"
+        fuel = { element: "H", remaining: 1 - f }
+        // the H-free core only shows up in the second half of the MS
+        heCore = lerp(cores.he, end.he, f * f)
+        break
+      }
+      case "subgiant":
+      case "rgb":
+      case "bsg":
+        core = heBurnt(0)
+        burning = "shellH"
+        fuel = { element: "He", remaining: 1 }
+        heCore = lerp(cores.he, end.he, f)
+        break
+      case "hb":
+      case "rsg":
+      case "lbv":
+      case "wr": {
+        const g = heliumBurningProgress(timeline.phases, id, f)
+        core = heBurnt(g)
+        burning = "coreHe"
+        fuel = { element: "He", remaining: 1 - g }
+        heCore = lerp(cores.he, end.he, f)
+        coCore = lerp(cores.co, end.co, f)
+        break
+      }
+      default:
+        // agb
+        core = heBurnt(1)
+        burning = "shellHe"
+        fuel = { element: "He", remaining: 0 }
+        heCore = lerp(cores.he, end.he, f)
+        coCore = lerp(cores.co, end.co, f)
+        break
+    }
+  }
+
+  heCore = Math.min(heCore, M)
+  coCore = Math.min(coCore, heCore)
+
+  return {
+    core,
+    heCoreMass: heCore,
+    coCoreMass: coCore,
+    surface: surf,
+    burning,
+    fuel,
+  }
+}
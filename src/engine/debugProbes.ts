@@ -2,6 +2,7 @@
 import { computeInitialStar, type StarParams } from "./starEngine"
 import { computeEvolutionTimeline } from "./starEvolutionEngine"
 import { getStarStateAtTime } from "./starEvolutionCurves"
+import { M_MAX, M_MIN } from "./massRegimes"
 
 type ProbeRow = {
   mass: number
@@ -14,9 +15,12 @@ type ProbeRow = {
   logL_init: number
 
   phaseEnd: string
+  fate: string
   remnantEnd: string | null
+  remnantMass: number
   logT_end: number
   logL_end: number
+  M_end: number
 }
 
 /**
@@ -24,7 +28,7 @@ type ProbeRow = {
  * sample a grid of (M, Z, CNO) and log initial + endpoint states.
  */
 export function runDebugGrid(): ProbeRow[] {
-  const masses = [0.1, 0.2, 0.5, 1, 3, 8, 15, 30, 50]
+  const masses = [0.02, 0.05, 0.1, 0.2, 0.5, 1, 3, 8, 15, 30, 50, 100, 200, 300]
   const metallicities = [0.0, 0.0001, 0.004, 0.02, 0.04]
   const cnoFractions = [0.0, 0.3, 0.6, 1.0]
 
@@ -33,7 +37,12 @@ export function runDebugGrid(): ProbeRow[] {
   for (const mass of masses) {
     for (const Z of metallicities) {
       for (const cno of cnoFractions) {
-        const params: StarParams = { mass, metallicity: Z, cnoFraction: cno }
+        const params: StarParams = {
+          mass,
+          metallicity: Z,
+          cnoFraction: cno,
+          rotation: 0,
+        }
 
         const initial = computeInitialStar(params)
         const timeline = computeEvolutionTimeline(params)
@@ -52,9 +61,12 @@ export function runDebugGrid(): ProbeRow[] {
           logT_init: initial.logT,
           logL_init: initial.logL,
           phaseEnd: end.phaseId,
+          fate: timeline.fate,
           remnantEnd: end.remnant ?? null,
+          remnantMass: timeline.remnantMass,
           logT_end: end.logT,
           logL_end: end.logL,
+          M_end: end.M,
         })
       }
     }
@@ -71,9 +83,51 @@ export function runDebugGrid(): ProbeRow[] {
   console.log("Remnant summary (count by fate):", summary)
 
   console.table(rows)
+
+  // How the fate boundaries move with metallicity
+  console.table(scanFateBoundaries(metallicities))
+
   return rows
 }
 
+type FateBoundaryRow = {
+  Z: number
+  boundaries: string // e.g. "wd → ecsn @ 8.0 M☉, ecsn → ccsn @ 9.5 M☉"
+}
+
+/**
+ * Dev-only helper:
+ * walk a fine log-spaced mass grid at each Z (solar-ish CNO) and report
+ * the initial masses where the fate changes.
+ */
+function scanFateBoundaries(metallicities: number[]): FateBoundaryRow[] {
+  const nSteps = 200
+  const logMin = Math.log10(M_MIN)
+  const logMax = Math.log10(M_MAX)
+
+  return metallicities.map((Z) => {
+    const changes: string[] = []
+    let prevFate: string | null = null
+
+    for (let i = 0; i <= nSteps; i++) {
+      const mass = Math.pow(10, logMin + ((logMax - logMin) * i) / nSteps)
+      const { fate } = computeEvolutionTimeline({
+        mass,
+        metallicity: Z,
+        cnoFraction: 0.3,
+        rotation: 0,
+      })
+
+      if (prevFate !== null && fate !== prevFate) {
+        changes.push(`${prevFate} → ${fate} @ ${mass.toFixed(1)} M☉`)
+      }
+      prevFate = fate
+    }
+
+    return { Z, boundaries: changes.join(", ") }
+  })
+}
+
 // Optional: expose on window so you can call it from DevTools
 declare global {
   interface Window {
@@ -0,0 +1,113 @@
+// src/engine/derivedQuantities.ts
+// Numbers that follow from M, R and L alone:
+//
+//   - surface gravity g = GM/R² (quoted as log g in cgs, Sun 4.44)
+//   - mean density ρ̄ = M / (4/3 π R³) (Sun 1.41 g/cm³, white dwarfs ~10⁶)
+//   - escape velocity v = √(2GM/R) (Sun 618 km/s; c at a black hole's horizon)
+//   - dynamical time √(R³/GM): how fast the star reacts to losing
+//     pressure support (Sun ~half an hour)
+//   - thermal (Kelvin–Helmholtz) time GM²/(RL): how long it could shine
+//     on gravitational contraction alone (Sun ~30 Myr)
+//   - nuclear time η q Mc²/L: how long the fuel in the core lasts
+//     (Sun ~10 Gyr on hydrogen)
+
+import {
+  neutronStarRadiusKm,
+  schwarzschildRadiusKm,
+  whiteDwarfRadius,
+} from "./remnants"
+import type { RemnantKind } from "./starEvolutionEngine"
+
+// physical constants (cgs)
+const G = 6.674e-8
+const C_LIGHT = 2.998e10
+const M_SUN_G = 1.989e33
+const R_SUN_CM = 6.957e10
+const R_SUN_KM = 6.957e5
+const L_SUN = 3.828e33
+const SECONDS_PER_YEAR = 3.156e7
+
+// rest-mass fraction released by each fuel (H → He, 3 He → C)
+const FUSION_EFFICIENCY = {
+  H: 0.007,
+  He: 0.00065,
+}
+
+// mass fraction of the star that burns in its core (Schönberg–Chandrasekhar-ish)
+const CORE_FUEL_FRACTION = 0.1
+
+export type DerivedQuantities = {
+  logg: number               // log10(g / cm s⁻²)
+  meanDensity: number        // g cm⁻³
+  escapeVelocityKms: number  // km s⁻¹
+  dynamicalTimeS: number     // s
+  thermalTimeYr: number | null // null when the object doesn't shine
+  nuclearTimeYr: number | null // null when nothing is fusing
+}
+
+export type DerivedInput = {
+  M: number                 // M☉
+  R: number                 // R☉
+  L: number                 // L☉
+  fuel: "H" | "He" | null   // what the core burns (composition.fuel.element)
+}
+
+/**
+ * Radius in R☉ of a compact remnant of mass M (M☉), or null for
+ * remnants that keep the star's own radius (brown dwarfs) or have
+ * nothing left (pair-instability debris).
+ */
+export function remnantRadius(remnant: RemnantKind, M: number): number | null {
+  switch (remnant) {
+    case "wd":
+      return whiteDwarfRadius(M)
+    case "ns":
+      return neutronStarRadiusKm(M) / R_SUN_KM
+    case "bh":
+      return schwarzschildRadiusKm(M) / R_SUN_KM
+    default:
+      return null
+  }
+}
+
+/**
+ * log10 of the surface gravity (cm s⁻²) of mass M (M☉) at radius R (R☉).
+ */
+export function logSurfaceGravity(M: number, R: number): number {
+  const Mg = Math.max(M, 1e-6) * M_SUN_G
+  const Rcm = Math.max(R, 1e-9) * R_SUN_CM
+  return Math.log10((G * Mg) / (Rcm * Rcm))
+}
+
+/**
+ * Surface gravity, mean density, escape velocity and the three
+ * classic timescales of a star of mass M, radius R and luminosity L.
+ */
+export function derivedQuantities({ M, R, L, fuel }: DerivedInput): DerivedQuantities {
+  const Mg = Math.max(M, 1e-6) * M_SUN_G
+  const Rcm = Math.max(R, 1e-9) * R_SUN_CM
+  const Lcgs = Math.max(L, 0) * L_SUN
+
+  const meanDensity = Mg / ((4 / 3) * Math.PI * Rcm * Rcm * Rcm)
+  // never faster than light (exactly c at a Schwarzschild radius)
+  const escapeVelocity = Math.min(Math.sqrt((2 * G * Mg) / Rcm), C_LIGHT)
+  const dynamicalTime = Math.sqrt((Rcm * Rcm * Rcm) / (G * Mg))
+
+  const thermalTimeYr =
+    Lcgs > 0 ? (G * Mg * Mg) / (Rcm * Lcgs) / SECONDS_PER_YEAR : null
+  const nuclearTimeYr =
+    Lcgs > 0 && fuel !== null
+      ? (FUSION_EFFICIENCY[fuel] * CORE_FUEL_FRACTION * Mg * C_LIGHT * C_LIGHT) /
+        Lcgs /
+        SECONDS_PER_YEAR
+      : null
+
+  return {
+    logg: logSurfaceGravity(M, R),
+    meanDensity,
+    escapeVelocityKms: escapeVelocity / 1e5,
+    dynamicalTimeS: dynamicalTime,
+    thermalTimeYr,
+    nuclearTimeYr,
+  }
+}
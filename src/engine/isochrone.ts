@@ -0,0 +1,156 @@
+// src/engine/isochrone.ts
+// Isochrones: many masses at one time, the transpose of
+// getStarStateAtTime (one star at many times).
+//
+// Everything after the main sequence happens in a sliver of initial mass
+// just above the turnoff (a 1 M☉ star spends ~20% of its life there,
+// i.e. a few hundredths of a dex in mass), so a plain mass grid skips
+// the subgiant branch and the giants. The isochrone is sampled in two
+// passes:
+//
+//   1. a coarse log-mass grid over the whole range
+//   2. a fine grid between the last main-sequence mass and the first
+//      mass that has already died
+//
+// Masses are snapped to a fixed log lattice and their timelines cached,
+// so sliding the age (as the cluster game does) reuses almost all of
+// the work.
+
+import type { StarParams } from "./starEngine"
+import {
+  computeEvolutionTimeline,
+  type EvolutionPhaseId,
+  type EvolutionTimeline,
+} from "./starEvolutionEngine"
+import { getStarStateAtTime } from "./starEvolutionCurves"
+import { logSurfaceGravity } from "./derivedQuantities"
+
+export type IsochroneParams = {
+  ageMyr: number
+  metallicity: number
+  cnoFraction: number
+  mMin?: number       // M☉, default 0.1
+  mMax?: number       // M☉, default 20
+}
+
+export type IsochronePoint = {
+  mass: number              // initial mass, M☉
+  M: number                 // current mass, M☉
+  phaseId: EvolutionPhaseId
+  logT: number
+  logL: number
+  logg: number
+}
+
+export type Isochrone = {
+  ageMyr: number
+  points: IsochronePoint[] // living stars in order of initial mass
+  turnoffMass: number      // heaviest star still on the main sequence (0 if none)
+}
+
+const COARSE_COUNT = 60
+const FINE_MAX_COUNT = 120
+const LATTICE_DEX = 0.0005 // mass lattice step for the cache
+
+// ---------- timeline cache ----------
+
+const timelineCache = new Map<string, EvolutionTimeline>()
+const CACHE_LIMIT = 5000
+
+function snapMass(m: number): number {
+  return Math.pow(10, Math.round(Math.log10(m) / LATTICE_DEX) * LATTICE_DEX)
+}
+
+function timelineFor(params: StarParams): EvolutionTimeline {
+  const key = `${params.metallicity}|${params.cnoFraction}|${params.mass}`
+  const cached = timelineCache.get(key)
+  if (cached) return cached
+  // crude bound: start over rather than track usage
+  if (timelineCache.size >= CACHE_LIMIT) timelineCache.clear()
+  const timeline = computeEvolutionTimeline(params)
+  timelineCache.set(key, timeline)
+  return timeline
+}
+
+// one star at the isochrone's age, or null once it has become a remnant
+// (brown dwarfs never do)
+function pointAt(params: StarParams, ageMyr: number): IsochronePoint | null {
+  const timeline = timelineFor(params)
+  const finalPhase = timeline.phases[timeline.phases.length - 1]
+  if (timeline.remnant !== "bd" && finalPhase && ageMyr >= finalPhase.tStartMyr) {
+    return null
+  }
+  const state = getStarStateAtTime(params, timeline, ageMyr)
+  return {
+    mass: params.mass,
+    M: state.M,
+    phaseId: state.phaseId,
+    logT: Math.log10(Math.max(state.T_eff, 1)),
+    logL: Math.log10(Math.max(state.L, 1e-7)),
+    logg: logSurfaceGravity(state.M, state.R),
+  }
+}
+
+// ---------- public API ----------
+
+/**
+ * Isochrone for a population of one age and composition: every star
+ * still alive, from mMin up to the most evolved giant, tagged with its
+ * phase. Stars that have already ended as remnants are dropped.
+ */
+export function computeIsochrone({
+  ageMyr,
+  metallicity,
+  cnoFraction,
+  mMin = 0.1,
+  mMax = 20,
+}: IsochroneParams): Isochrone {
+  const paramsFor = (mass: number): StarParams => ({
+    mass,
+    metallicity,
+    cnoFraction,
+    rotation: 0,
+  })
+
+  // 1) coarse grid
+  const logMin = Math.log10(mMin)
+  const logMax = Math.log10(mMax)
+  const coarseMasses = Array.from({ length: COARSE_COUNT }, (_, i) =>
+    snapMass(Math.pow(10, logMin + ((logMax - logMin) * i) / (COARSE_COUNT - 1))),
+  )
+  const coarse = coarseMasses.map((m) => pointAt(paramsFor(m), ageMyr))
+
+  // 2) fine grid from the last main-sequence star to the first remnant
+  //    (or the top of the range if nothing has died yet)
+  let lastMS = -1
+  coarse.forEach((p, i) => {
+    if (p && (p.phaseId === "ms" || p.phaseId === "pms")) lastMS = i
+  })
+  const firstDead = coarse.findIndex((p, i) => i > lastMS && p === null)
+  const upper = firstDead >= 0 ? firstDead : COARSE_COUNT - 1
+
+  const fineMasses: number[] = []
+  if (lastMS >= 0 && upper > lastMS) {
+    const a = Math.log10(coarseMasses[lastMS])
+    const b = Math.log10(coarseMasses[upper])
+    const steps = Math.min(Math.round((b - a) / LATTICE_DEX), FINE_MAX_COUNT)
+    for (let i = 1; i < steps; i++) {
+      fineMasses.push(snapMass(Math.pow(10, a + ((b - a) * i) / steps)))
+    }
+  }
+  const fine = fineMasses.map((m) => pointAt(paramsFor(m), ageMyr))
+
+  // merge, drop the dead and duplicate lattice masses
+  const byMass = new Map<number, IsochronePoint>()
+  for (const p of [...coarse, ...fine]) {
+    if (p) byMass.set(p.mass, p)
+  }
+  const points = [...byMass.values()].sort((p, q) => p.mass - q.mass)
+
+  const turnoffMass = points.reduce(
+    (best, p) => (p.phaseId === "ms" ? Math.max(best, p.mass) : best),
+    0,
+  )
+
+  return { ageMyr, points, turnoffMass }
+}
@@ -0,0 +1,329 @@
+// src/engine/massLoss.ts
+// Stellar-wind mass loss: M(t) and dM/dt along the evolution timeline.
+//
+// Two classic wind recipes are blended by effective temperature:
+//   - cool giants: Reimers (1975),  Mdot = 4e-13 η L R / M
+//   - hot stars:   line-driven winds (Vink-style fit), ∝ L^2.2 M^-1.3 Z^0.85
+//
+// The analytic phase shapes spend far longer at high luminosity than real
+// stars do, so integrating the raw formulas would blow away every envelope
+// on the RGB. Instead each phase gets an envelope "budget": the raw rate
+// sets the *shape* of Mdot(t) inside the phase, and a per-phase scale keeps
+// the integrated loss inside physically sensible limits.
+
+import type {
+  EvolutionTimeline,
+  EvolutionPhaseId,
+  RemnantKind,
+} from "./starEvolutionEngine"
+import { massiveRoute } from "./massRegimes"
+
+// Minimal stellar state the wind formulas need
+export type WindStatePoint = {
+  L: number     // L / L☉
+  R: number     // R / R☉
+  T_eff: number // K
+}
+
+// Per-phase mass bookkeeping
+export type MassLossPhase = {
+  id: EvolutionPhaseId
+  mStart: number      // M / M☉ at phase start
+  mEnd: number        // M / M☉ at phase end
+  rateScale: number   // budget normalisation applied to the raw wind rate
+  // cumulative mass lost (M☉) at evenly spaced phase fractions 0..1
+  cumulativeLoss: number[]
+}
+
+export type MassLossTrack = {
+  M0: number
+  phases: MassLossPhase[]
+}
+
+// Where the star sits on the timeline, for lookups
+export type MassAtTime = {
+  M: number     // current mass in M☉
+  Mdot: number  // current mass-loss rate in M☉ / yr (positive = losing)
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+// samples per phase for the numerical integration
+const N_SAMPLES = 32
+
+// ---------- wind recipes ----------
+
+/**
+ * Reimers wind for cool, extended stars, in M☉/yr.
+ * η ≈ 0.5 reproduces the mass lost by low-mass stars on the RGB.
+ */
+function reimersRate(M: number, L: number, R: number): number {
+  const eta = 0.5
+  return 4e-13 * eta * (L * R) / Math.max(M, 0.05)
+}
+
+/**
+ * Line-driven wind for hot, luminous stars, in M☉/yr.
+ * Simplified Vink et al. (2001) fit:
+ *   log Mdot ≈ -6.7 + 2.2 log(L/1e5) - 1.3 log(M/30) + 0.85 log(Z/Z☉)
+ */
+function lineDrivenRate(M: number, L: number, Z: number): number {
+  const Zsun = 0.02
+  const Zrel = clamp(Z / Zsun, 0.01, 3.0)
+
+  const logMdot =
+    -6.7 +
+    2.2 * Math.log10(Math.max(L, 1e-4) / 1e5) -
+    1.3 * Math.log10(Math.max(M, 0.1) / 30) +
+    0.85 * Math.log10(Zrel)
+
+  return Math.pow(10, logMdot)
+}
+
+/**
+ * Raw (un-budgeted) wind mass-loss rate in M☉/yr.
+ * Cool stars use Reimers, hot stars line-driven winds, with a smooth
+ * hand-over between ~8000 K and ~12000 K.
+ */
+export function windMassLossRate(
+  M: number,
+  state: WindStatePoint,
+  Z: number,
+): number {
+  const { L, R, T_eff } = state
+
+  const cool = reimersRate(M, L, R)
+  const hot = lineDrivenRate(M, L, Z)
+
+  const logT = Math.log10(Math.max(T_eff, 10))
+  const w = clamp((logT - Math.log10(8000)) / (Math.log10(12000) - Math.log10(8000)), 0, 1)
+
+  return lerp(cool, hot, w)
+}
+
+// ---------- core masses ----------
+
+/**
+ * Rough core mass (M☉) reached by the end of each phase, for an
+ * initial mass M0. This is the floor the wind cannot strip below.
+ *   - MS:  Schönberg–Chandrasekhar-ish ~0.1 M0
+ *   - RGB: degenerate He core ~0.47 M☉ for M0 ≲ 2, ~0.1 M0^1.4 above,
+ *          growing only linearly (~0.5 M0) beyond 50 M☉ so that pair
+ *          instability sets in around 130–260 M☉
+ *   - core He burning (HB, RSG, LBV, WR): the He core
+ *   - AGB: C/O core from the initial–final mass relation
+ *          (M_WD ≈ 0.08 M0 + 0.49) for WD progenitors, He core otherwise
+ */
+export function coreMassAtPhaseEnd(
+  M0: number,
+  id: EvolutionPhaseId,
+  remnant: RemnantKind,
+): number {
+  const heCoreMassive =
+    M0 <= 50
+      ? 0.1 * Math.pow(M0, 1.4)
+      : 0.1 * Math.pow(50, 1.4) + 0.5 * (M0 - 50)
+  // below ~2 M☉ the He core is degenerate and ignites at ~0.47 M☉
+  const lowMassWeight = clamp((2.5 - M0) / 1.0, 0, 1)
+  const Mc_he = Math.min(
+    lerp(heCoreMassive, Math.max(0.47, heCoreMassive), lowMassWeight),
+    0.9 * M0,
+  )
+
+  // C/O core that becomes the white dwarf (the He shell above it is
+  // blown off with the envelope)
+  const Mc_co = Math.min(0.08 * M0 + 0.49, 1.38, 0.95 * M0)
+
+  switch (id) {
+    case "pms":
+      return 0
+    case "ms":
+      return 0.1 * M0
+    case "subgiant":
+    case "bsg":
+      return lerp(0.1 * M0, Mc_he, 0.3)
+    case "rgb":
+    case "hb":
+    case "rsg":
+    case "lbv":
+    case "wr":
+      return Mc_he
+    default:
+      // agb, final slot and remnant phases
+      return remnant === "wd" ? Mc_co : Mc_he
+  }
+}
+
+// ---------- envelope budgets ----------
+
+type PhaseBudget = {
+  min: number // minimum fraction of the current envelope lost in this phase
+  max: number // maximum fraction of the current envelope lost in this phase
+}
+
+function phaseBudget(
+  id: EvolutionPhaseId,
+  remnant: RemnantKind,
+  M0: number,
+  Z: number,
+): PhaseBudget {
+  const budget = basePhaseBudget(id, remnant, M0)
+
+  // Metal-poor stars have weaker winds (fewer lines, less dust) and keep
+  // more of their envelope; the WD superwind is left alone so every
+  // WD progenitor still ends as a bare core.
+  if (budget.min >= 1) return budget
+
+  const Zsun = 0.02
+  const windZFactor = clamp(Math.sqrt(Math.max(Z, 0) / Zsun), 0.1, 1.3)
+  return {
+    min: budget.min,
+    max: clamp(budget.max * windZFactor, budget.min, 1),
+  }
+}
+
+function basePhaseBudget(
+  id: EvolutionPhaseId,
+  remnant: RemnantKind,
+  M0: number,
+): PhaseBudget {
+  switch (id) {
+    case "pms":
+      return { min: 0, max: 0 }
+    case "ms":
+      return { min: 0, max: 0.5 }
+    case "subgiant":
+      return { min: 0, max: 0.2 }
+    case "rgb":
+      return { min: 0, max: 0.3 }
+    case "hb":
+    case "bsg":
+      return { min: 0, max: 0.2 }
+    case "rsg":
+      // slow, dusty red-supergiant wind; above ~25 M☉ it bares the
+      // helium core and leaves a Wolf–Rayet star behind
+      return massiveRoute(M0) === "redSupergiantToWR"
+        ? { min: 0.7, max: 0.95 }
+        : { min: 0, max: 0.6 }
+    case "lbv":
+      // giant eruptions shed a good part of the envelope whatever the wind
+      return { min: 0.3, max: 0.9 }
+    case "agb":
+      // WD progenitors: the AGB superwind strips the whole envelope
+      return remnant === "wd" ? { min: 1, max: 1 } : { min: 0, max: 0.6 }
+    case "wr":
+    case "nsFinal":
+    case "bhFinal":
+    case "pisnFinal":
+      // pre-supernova supergiant / Wolf–Rayet winds
+      return { min: 0, max: 0.8 }
+    default:
+      // compact remnants (and brown dwarfs) have no wind
+      return { min: 0, max: 0 }
+  }
+}
+
+// ---------- public API ----------
+
+/**
+ * Integrate the wind along every phase of the timeline.
+ *
+ * `sample(id, f)` must return the star's L, R, T at fraction f of phase
+ * `id` — the curves module supplies it from its phase shapes.
+ */
+export function computeMassLossTrack(
+  M0: number,
+  Z: number,
+  timeline: Pick<EvolutionTimeline, "phases" | "remnant">,
+  sample: (id: EvolutionPhaseId, f: number) => WindStatePoint,
+): MassLossTrack {
+  let M = M0
+  const phases: MassLossPhase[] = []
+
+  for (const ph of timeline.phases) {
+    const mStart = M
+    const budget = phaseBudget(ph.id, timeline.remnant, M0, Z)
+    const Mcore = Math.min(coreMassAtPhaseEnd(M0, ph.id, timeline.remnant), mStart)
+    const envelope = Math.max(mStart - Mcore, 0)
+    const durationYr = ph.durationMyr * 1e6
+
+    // raw integral of the wind formula (trapezoid, mass held at mStart)
+    const raw: number[] = [0]
+    let prevRate = windMassLossRate(mStart, sample(ph.id, 0), Z)
+    for (let i = 1; i <= N_SAMPLES; i++) {
+      const f = i / N_SAMPLES
+      const rate = windMassLossRate(mStart, sample(ph.id, f), Z)
+      const dt = durationYr / N_SAMPLES
+      raw.push(raw[i - 1] + 0.5 * (prevRate + rate) * dt)
+      prevRate = rate
+    }
+    const rawTotal = raw[N_SAMPLES]
+
+    const lossTarget = clamp(
+      rawTotal,
+      budget.min * envelope,
+      budget.max * envelope,
+    )
+
+    let rateScale = 0
+    let cumulativeLoss: number[]
+    if (rawTotal > 0 && lossTarget > 0) {
+      rateScale = lossTarget / rawTotal
+      cumulativeLoss = raw.map((m) => m * rateScale)
+    } else {
+      cumulativeLoss = raw.map(() => 0)
+    }
+
+    M = mStart - lossTarget
+
+    phases.push({
+      id: ph.id,
+      mStart,
+      mEnd: M,
+      rateScale,
+      cumulativeLoss,
+    })
+  }
+
+  return { M0, phases }
+}
+
+/**
+ * Current mass and mass-loss rate at fraction f of phase `id`.
+ */
+export function massAtPhaseFraction(
+  track: MassLossTrack,
+  id: EvolutionPhaseId,
+  f: number,
+  state: WindStatePoint,
+  Z: number,
+): MassAtTime {
+  const ph = track.phases.find((p) => p.id === id)
+  if (!ph) return { M: track.M0, Mdot: 0 }
+
+  const u = clamp(f, 0, 1) * N_SAMPLES
+  const i = Math.min(Math.floor(u), N_SAMPLES - 1)
+  const lost = lerp(ph.cumulativeLoss[i], ph.cumulativeLoss[i + 1], u - i)
+
+  const M = ph.mStart - lost
+  const Mdot = ph.rateScale * windMassLossRate(ph.mStart, state, Z)
+
+  return { M, Mdot }
+}
+
+/**
+ * Mass (M☉) at the end of a phase, or the initial mass if the phase
+ * is not on this star's timeline.
+ */
+export function massAtPhaseEnd(track: MassLossTrack, id: EvolutionPhaseId): number {
+  const ph = track.phases.find((p) => p.id === id)
+  return ph ? ph.mEnd : track.M0
+}
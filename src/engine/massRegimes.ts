@@ -0,0 +1,139 @@
+// src/engine/massRegimes.ts
+// Mass regimes the factory can build, and the relations that are
+// specific to the two ends of the range:
+//
+//   - brown dwarfs (≲ 0.075 M☉): never ignite hydrogen; they contract,
+//     burn a little deuterium, then simply cool and fade
+//   - very massive stars (≳ 100 M☉): radiation pressure pushes them up
+//     against the Eddington limit, so L grows only ~linearly with M
+//
+// Core-collapse progenitors in between take one of three routes after
+// the main sequence (see massiveRoute).
+
+// Full range of the Build-screen mass control, in M☉
+export const M_MIN = 0.01   // ~10 Jupiter masses
+export const M_MAX = 300    // R136a1-class monsters
+
+export const M_VMS = 100    // very massive stars from here up
+
+export type MassRegime = "brownDwarf" | "star" | "veryMassive"
+
+// post-MS route of a core-collapse progenitor
+export type MassiveRoute =
+  | "redSupergiant"        // BSG → RSG → explodes as a red (or stripped yellow) supergiant
+  | "redSupergiantToWR"    // BSG → RSG → the wind bares the core → Wolf–Rayet
+  | "luminousBlueVariable" // BSG → LBV eruptions → Wolf–Rayet, never red
+
+export const M_WR_MIN = 25  // RSGs strip down to WR stars from here up
+export const M_LBV_MIN = 40 // Humphreys–Davidson limit: no RSGs above it
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+export function clampStellarMass(M: number): number {
+  return clamp(M, M_MIN, M_MAX)
+}
+
+/**
+ * Hydrogen-burning limit in M☉: ~0.075 at solar Z, rising to ~0.083
+ * for metal-poor gas (lower opacity → more mass needed to ignite H).
+ */
+export function hydrogenBurningLimit(Z: number): number {
+  const Zsun = 0.02
+  const logZrel = Math.log10(clamp(Z / Zsun, 1e-3, 2))
+  return 0.075 + 0.008 * clamp(-logZrel / 2, 0, 1)
+}
+
+export function massRegime(M: number, Z: number): MassRegime {
+  if (M < hydrogenBurningLimit(Z)) return "brownDwarf"
+  if (M >= M_VMS) return "veryMassive"
+  return "star"
+}
+
+/**
+ * Which supergiant route a core-collapse progenitor of mass M (M☉) takes.
+ */
+export function massiveRoute(M: number): MassiveRoute {
+  if (M < M_WR_MIN) return "redSupergiant"
+  if (M < M_LBV_MIN) return "redSupergiantToWR"
+  return "luminousBlueVariable"
+}
+
+// ---------- brown dwarfs ----------
+
+// Cooling is shown for 10 Gyr, about the age of the Galactic disc
+export const BROWN_DWARF_SHOWN_MYR = 10_000
+
+/**
+ * Contraction + deuterium-burning time in Myr. Objects above ~13 M_Jup
+ * (0.013 M☉) burn deuterium for tens–hundreds of Myr; below that they
+ * just contract for a few Myr.
+ */
+export function brownDwarfContractionMyr(M: number): number {
+  if (M < 0.013) return 5
+  return 10 * Math.pow(M / 0.013, 1.5)
+}
+
+/**
+ * Brown-dwarf luminosity (L☉) and radius (R☉) at a given age.
+ *
+ * Cooling follows Burrows & Liebert (1993):
+ *   L ≈ 4e-5 L☉ (M / 0.05 M☉)^2.64 (t / 1 Gyr)^-1.3
+ * During contraction / deuterium burning the luminosity is held higher
+ * (∝ t^-0.6) and joins the cooling law at the end of that phase.
+ * Radii shrink from a few tenths of R☉ to ~1 Jupiter radius (~0.1 R☉),
+ * heavier objects ending slightly smaller (degeneracy).
+ */
+export function brownDwarfStateAtAge(
+  M: number,
+  ageMyr: number,
+): { L: number; R: number } {
+  const t = Math.max(ageMyr, 0.5)
+  const tD = brownDwarfContractionMyr(M)
+
+  const coolingL = (tMyr: number) =>
+    4e-5 * Math.pow(M / 0.05, 2.64) * Math.pow(tMyr / 1000, -1.3)
+
+  const L = t < tD ? coolingL(tD) * Math.pow(tD / t, 0.6) : coolingL(t)
+
+  const R_old = 0.1 * Math.pow(M / 0.05, -0.125)
+  const R = R_old * (1 + 2 * Math.pow(1 / t, 0.5))
+
+  return { L, R }
+}
+
+// ---------- very massive stars ----------
+
+/**
+ * Eddington luminosity in L☉ for electron-scattering opacity
+ * κ_es = 0.2 (1 + X) cm²/g:  L_Edd ≈ 3.3e4 L☉ (M/M☉) × 1.7 / (1 + X).
+ */
+export function eddingtonLuminosity(M: number, X: number): number {
+  return (3.27e4 * 1.7 * M) / (1 + X)
+}
+
+/**
+ * Main-sequence luminosity above 50 M☉. The plain L ∝ M^3.5 law would
+ * run straight through the Eddington limit, so instead the Eddington
+ * factor Γ = L / L_Edd creeps up slowly from its 50 M☉ value and is
+ * capped at 0.9 (R136a1: ~300 M☉, log L ≈ 6.9).
+ */
+export function eddingtonLimitedLuminosity(M: number, X: number): number {
+  const M_join = 50
+  const L_join = Math.pow(M_join, 3.5)
+  const gammaJoin = L_join / eddingtonLuminosity(M_join, X)
+  const gamma = Math.min(gammaJoin * Math.pow(M / M_join, 0.25), 0.9)
+  return gamma * eddingtonLuminosity(M, X)
+}
+
+/**
+ * Main-sequence radius above 50 M☉: flatter than R ∝ M^0.8,
+ * ~55 R☉ at 300 M☉ (T_eff ≈ 40–50 kK at solar Z).
+ */
+export function veryMassiveRadius(M: number): number {
+  const M_join = 50
+  return Math.pow(M_join, 0.8) * Math.pow(M / M_join, 0.5)
+}
@@ -0,0 +1,123 @@
+// src/engine/nuclearBurning.ts
+// Where a main-sequence star's energy comes from: the pp chain or the
+// CNO cycle.
+//
+// Both burn hydrogen into helium, but the CNO cycle has to push a proton
+// through the much higher Coulomb barrier of a carbon / nitrogen nucleus,
+// so it is far more temperature-sensitive (ε ∝ T^~18 vs T^~4 near 15 MK).
+// Low-mass stars run on the pp chain; above ~1.3 M☉ the hotter cores
+// hand over to CNO, which in turn makes those cores convective.
+//
+// Central density comes from an n = 3 polytrope of the star's M and R.
+// Central temperature is set by the thermostat: the core settles at
+// whatever T makes it produce the star's luminosity. A star with more
+// CNO catalysts reaches that output at a slightly lower T_c, and leans
+// more on the CNO cycle. A massive star with no CNO catalysts at all
+// cannot reach its luminosity on the pp chain below ~200 MK; it falls
+// back to the polytrope's own T_c (ideal gas, from M and R).
+
+import { meanMolecularWeight, polytropeModel } from "./polytrope"
+
+const L_SUN = 3.828e33 // erg s⁻¹
+const M_SUN_G = 1.989e33
+
+// mass fraction around the centre where nearly all the energy is made,
+// burning at roughly the central rate
+const BURNING_MASS_FRACTION = 0.1
+
+// thermostat search range for T_c (K)
+const T_C_MIN = 1e6
+const T_C_MAX = 2e8
+
+export type EnergyGeneration = {
+  T_c: number        // central temperature, K
+  rho_c: number      // central density, g cm⁻³
+  epsPP: number      // pp-chain rate at the centre, erg g⁻¹ s⁻¹
+  epsCNO: number     // CNO-cycle rate at the centre, erg g⁻¹ s⁻¹
+  ppFraction: number // share of the energy from each channel (sums to 1)
+  cnoFraction: number
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+// ---------- reaction rates ----------
+
+/**
+ * pp-chain energy generation rate (erg g⁻¹ s⁻¹), unscreened
+ * non-resonant form: ε = 2.38e6 ρ X² T6^(−2/3) exp(−33.80 / T6^(1/3)).
+ */
+export function epsilonPP(rho: number, T: number, X: number): number {
+  const T6 = Math.max(T / 1e6, 0.1)
+  return 2.38e6 * rho * X * X * Math.pow(T6, -2 / 3) * Math.exp(-33.8 / Math.cbrt(T6))
+}
+
+/**
+ * CNO-cycle energy generation rate (erg g⁻¹ s⁻¹), limited by
+ * ¹⁴N(p,γ)¹⁵O: ε = 8.67e27 ρ X X_CNO T6^(−2/3) exp(−152.28 / T6^(1/3)).
+ */
+export function epsilonCNO(rho: number, T: number, X: number, X_CNO: number): number {
+  const T6 = Math.max(T / 1e6, 0.1)
+  return (
+    8.67e27 * rho * X * X_CNO * Math.pow(T6, -2 / 3) * Math.exp(-152.28 / Math.cbrt(T6))
+  )
+}
+
+// ---------- public API ----------
+
+/**
+ * Central conditions and the pp / CNO split for a hydrogen-burning star
+ * of mass M (M☉), radius R (R☉) and luminosity L (L☉) with composition
+ * X, Z and CNO mass fraction X_CNO. Returns null when there is no
+ * hydrogen to burn.
+ */
+export function energyGeneration(
+  M: number,
+  R: number,
+  L: number,
+  X: number,
+  Z: number,
+  X_CNO: number,
+): EnergyGeneration | null {
+  if (X <= 0 || L <= 0) return null
+
+  const mu = meanMolecularWeight(X, 1 - X - Z, Z)
+  const core = polytropeModel(M, R, 3, mu, 2)
+  const rho_c = core.rhoCentral
+
+  // rate the core has to sustain to shine at L
+  const epsNeeded =
+    (L * L_SUN) / (BURNING_MASS_FRACTION * Math.max(M, 1e-3) * M_SUN_G)
+  const total = (T: number) =>
+    epsilonPP(rho_c, T, X) + epsilonCNO(rho_c, T, X, X_CNO)
+
+  // both rates rise monotonically with T: bisect in log T, unless even
+  // the top of the range falls short (no bracket)
+  let T_c = core.TCentral
+  if (total(T_C_MAX) >= epsNeeded) {
+    let lo = Math.log10(T_C_MIN)
+    let hi = Math.log10(T_C_MAX)
+    for (let i = 0; i < 50; i++) {
+      const mid = 0.5 * (lo + hi)
+      if (total(Math.pow(10, mid)) < epsNeeded) lo = mid
+      else hi = mid
+    }
+    T_c = Math.pow(10, 0.5 * (lo + hi))
+  }
+
+  const epsPP = epsilonPP(rho_c, T_c, X)
+  const epsCNO = epsilonCNO(rho_c, T_c, X, X_CNO)
+  const cnoFraction = clamp(epsCNO / Math.max(epsPP + epsCNO, 1e-300), 0, 1)
+
+  return {
+    T_c,
+    rho_c,
+    epsPP,
+    epsCNO,
+    ppFraction: 1 - cnoFraction,
+    cnoFraction,
+  }
+}
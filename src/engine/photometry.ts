@@ -0,0 +1,168 @@
+// src/engine/photometry.ts
+// Synthetic photometry: what the engine's stars would look like through
+// Johnson U, B, V and Gaia G, BP, RP filters.
+//
+// Each star is a blackbody at T_eff (as in blackbody.ts) seen through
+// idealised box-shaped passbands. Zero points are set so that a 5772 K
+// blackbody with L = 1 L☉ reproduces the Sun's absolute magnitudes, which
+// makes colours good to ~0.1 mag for F–K stars. Real M stars are redder
+// than a blackbody (molecular bands), and real O stars a little less blue
+// than the Rayleigh–Jeans limit, so the far ends of the CMD are
+// approximate.
+
+import { planckLambda } from "./blackbody"
+
+export type PhotometricBand = "U" | "B" | "V" | "G" | "BP" | "RP"
+
+export type Magnitudes = Record<PhotometricBand, number> & {
+  Mbol: number
+}
+
+// Absolute bolometric magnitude of the Sun (IAU 2015 B2)
+export const M_BOL_SUN = 4.74
+
+// Sun's absolute magnitudes (Willmer 2018; Casagrande & VandenBerg 2018)
+const SUN_ABS_MAG: Record<PhotometricBand, number> = {
+  U: 5.61,
+  B: 5.44,
+  V: 4.81,
+  G: 4.67,
+  BP: 5.03,
+  RP: 4.21,
+}
+
+// Half-power edges of the idealised passbands, nm
+const BANDS: Record<PhotometricBand, { min: number; max: number }> = {
+  U: { min: 320, max: 400 },
+  B: { min: 390, max: 490 },
+  V: { min: 505, max: 595 },
+  G: { min: 330, max: 1050 },
+  BP: { min: 330, max: 680 },
+  RP: { min: 630, max: 1050 },
+}
+
+const BAND_IDS = Object.keys(BANDS) as PhotometricBand[]
+
+const T_SUN = 5772
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+// Smooth-edged box: 1 inside the band, ~20 nm roll-off at either edge
+function bandResponse(band: PhotometricBand, lambdaNm: number): number {
+  const { min, max } = BANDS[band]
+  const edge = 5
+  const rise = 1 / (1 + Math.exp(-(lambdaNm - min) / edge))
+  const fall = 1 / (1 + Math.exp((lambdaNm - max) / edge))
+  return rise * fall
+}
+
+// Photon-weighted flux through a band, ∫ B_λ λ S(λ) dλ (arbitrary units)
+function bandFlux(band: PhotometricBand, T: number): number {
+  const { min, max } = BANDS[band]
+  const lo = min - 40
+  const hi = max + 40
+  const n = 64
+  const dLambda = (hi - lo) / n
+  let sum = 0
+  for (let i = 0; i <= n; i++) {
+    const lambda = lo + i * dLambda
+    const w = i === 0 || i === n ? 0.5 : 1
+    sum += w * planckLambda(lambda, T) * lambda * bandResponse(band, lambda)
+  }
+  return sum * dLambda
+}
+
+// ---------- bolometric corrections (tabulated in log T) ----------
+
+const LOG_T_MIN = 2.5   // 316 K: cold brown dwarfs
+const LOG_T_MAX = 5.7   // 500 kK: the hottest white dwarfs
+const LOG_T_STEP = 0.01
+
+let bcTable: Record<PhotometricBand, Float64Array> | null = null
+
+/**
+ * BC_x(T) = M_bol − M_x. For a blackbody it depends on T only:
+ *   M_x = M_x☉ − 2.5 log[ R² F_x(T) / F_x(T☉) ]  with  R² = L (T☉/T)⁴
+ * Built once on first use.
+ */
+function bolometricTable(): Record<PhotometricBand, Float64Array> {
+  if (bcTable) return bcTable
+
+  const n = Math.round((LOG_T_MAX - LOG_T_MIN) / LOG_T_STEP) + 1
+  const table = {} as Record<PhotometricBand, Float64Array>
+
+  for (const band of BAND_IDS) {
+    const sunPerT4 = bandFlux(band, T_SUN) / Math.pow(T_SUN, 4)
+    const column = new Float64Array(n)
+    for (let i = 0; i < n; i++) {
+      const T = Math.pow(10, LOG_T_MIN + i * LOG_T_STEP)
+      const perT4 = bandFlux(band, T) / Math.pow(T, 4)
+      // far Wien side of a cold star: flux underflows to 0
+      const ratio = Math.max(perT4 / sunPerT4, 1e-300)
+      column[i] = M_BOL_SUN - SUN_ABS_MAG[band] + 2.5 * Math.log10(ratio)
+    }
+    table[band] = column
+  }
+
+  bcTable = table
+  return table
+}
+
+/**
+ * Bolometric correction BC_x = M_bol − M_x for a band at T_eff.
+ * (BC_V ≈ −0.07 for the Sun, large and negative for very hot and very
+ * cool stars, whose light mostly falls outside V.)
+ */
+export function bolometricCorrection(band: PhotometricBand, T_eff: number): number {
+  const column = bolometricTable()[band]
+  const u = (clamp(Math.log10(Math.max(T_eff, 1)), LOG_T_MIN, LOG_T_MAX) - LOG_T_MIN) / LOG_T_STEP
+  const i = Math.min(Math.floor(u), column.length - 2)
+  const t = u - i
+  return column[i] + (column[i + 1] - column[i]) * t
+}
+
+// ---------- public API ----------
+
+export function absoluteBolometricMagnitude(logL: number): number {
+  return M_BOL_SUN - 2.5 * logL
+}
+
+/**
+ * Absolute magnitude in one band from T_eff and log L / L☉.
+ */
+export function absoluteMagnitude(
+  band: PhotometricBand,
+  T_eff: number,
+  logL: number,
+): number {
+  return absoluteBolometricMagnitude(logL) - bolometricCorrection(band, T_eff)
+}
+
+/**
+ * All absolute magnitudes for one engine state.
+ */
+export function computeMagnitudes(T_eff: number, logL: number): Magnitudes {
+  const Mbol = absoluteBolometricMagnitude(logL)
+  const mags = { Mbol } as Magnitudes
+  for (const band of BAND_IDS) {
+    mags[band] = Mbol - bolometricCorrection(band, T_eff)
+  }
+  return mags
+}
+
+// Colour indices depend on T_eff alone for a blackbody
+export function colorBV(T_eff: number): number {
+  return bolometricCorrection("V", T_eff) - bolometricCorrection("B", T_eff)
+}
+
+export function colorUB(T_eff: number): number {
+  return bolometricCorrection("B", T_eff) - bolometricCorrection("U", T_eff)
+}
+
+export function colorBPRP(T_eff: number): number {
+  return bolometricCorrection("RP", T_eff) - bolometricCorrection("BP", T_eff)
+}
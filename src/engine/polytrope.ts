@@ -0,0 +1,307 @@
+// src/engine/polytrope.ts
+// Stellar interiors as polytropes, P = K ρ^(1 + 1/n).
+//
+// The Lane–Emden equation
+//   (1/ξ²) d/dξ (ξ² dθ/dξ) = −θⁿ,   θ(0) = 1, θ'(0) = 0
+// is integrated once per index n; its first zero ξ₁ is the surface.
+// Scaling to a real star of mass M and radius R gives
+//   ρ = ρ_c θⁿ,  P = P_c θⁿ⁺¹,  T = T_c θ  (ideal gas)
+// with ρ_c = ρ̄ ξ₁ / (3 |θ'(ξ₁)|) and P_c = G M² / (4π (n+1) θ'(ξ₁)² R⁴).
+//
+// n = 1.5 is a fully convective star (or a non-relativistic white
+// dwarf), n = 3 Eddington's standard model for a radiative star (or a
+// white dwarf at the Chandrasekhar limit).
+
+import type { EvolutionPhaseId, RemnantKind } from "./starEvolutionEngine"
+import type { StarEvolutionState } from "./starEvolutionCurves"
+
+// physical constants (cgs)
+const G = 6.674e-8
+const K_B = 1.380649e-16
+const M_H = 1.6726e-24
+const M_SUN_G = 1.989e33
+const R_SUN_CM = 6.957e10
+
+export type LaneEmdenSolution = {
+  n: number
+  xi: number[]
+  theta: number[]
+  dtheta: number[] // dθ/dξ
+  xi1: number      // first zero of θ
+  dtheta1: number  // θ'(ξ₁) (negative)
+}
+
+export type PolytropeSample = {
+  r: number   // r / R
+  m: number   // m(r) / M
+  rho: number // g cm⁻³
+  P: number   // dyn cm⁻²
+  T: number   // K
+}
+
+export type PolytropeModel = {
+  n: number
+  rhoCentral: number // g cm⁻³
+  PCentral: number   // dyn cm⁻²
+  TCentral: number   // K
+  rhoMean: number    // g cm⁻³
+  samples: PolytropeSample[] // centre → surface
+}
+
+export type StellarInterior = {
+  model: PolytropeModel
+  degenerate: boolean // white dwarfs / neutron stars: T is not set by P/ρ
+  // false for giants: a single polytrope smears their tiny, dense core
+  // over the envelope, so ρ_c and T_c come out orders of magnitude low
+  coreResolved: boolean
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+// ---------- Lane–Emden ----------
+
+const solutions = new Map<number, LaneEmdenSolution>()
+
+// safety stop for the integration; ξ₁ is ~169 at n = 4.9, the top index
+const XI_MAX = 1000
+
+/**
+ * Integrate the Lane–Emden equation for index n (0 ≤ n < 5) with RK4,
+ * stopping at the first zero of θ. Results are cached per n.
+ *
+ * `step` is the step near the centre; further out θ varies on a scale
+ * of ~ξ, so the step grows with ξ. That reaches ξ₁ ≈ 169 for n = 4.9
+ * in a few thousand steps.
+ */
+export function solveLaneEmden(n: number, step = 0.005): LaneEmdenSolution {
+  // quantised so a smoothly varying n doesn't fill the cache
+  const index = Math.round(clamp(n, 0, 4.9) * 20) / 20
+  const cached = solutions.get(index)
+  if (cached) return cached
+
+  // θ may dip slightly negative inside an RK stage; θⁿ of a negative
+  // number is NaN for fractional n, so clip it
+  const source = (th: number) => Math.pow(Math.max(th, 0), index)
+  const deriv = (x: number, th: number, dth: number): [number, number] => [
+    dth,
+    -source(th) - (2 / x) * dth,
+  ]
+
+  // start just off the centre with the series θ ≈ 1 − ξ²/6 + n ξ⁴/120
+  let x = 1e-4
+  let th = 1 - (x * x) / 6 + (index * Math.pow(x, 4)) / 120
+  let dth = -x / 3 + (index * Math.pow(x, 3)) / 30
+
+  const xi = [0, x]
+  const theta = [1, th]
+  const dtheta = [0, dth]
+
+  while (th > 0 && x < XI_MAX) {
+    const h = step * Math.max(1, x / 2)
+    const [k1a, k1b] = deriv(x, th, dth)
+    const [k2a, k2b] = deriv(x + h / 2, th + (h / 2) * k1a, dth + (h / 2) * k1b)
+    const [k3a, k3b] = deriv(x + h / 2, th + (h / 2) * k2a, dth + (h / 2) * k2b)
+    const [k4a, k4b] = deriv(x + h, th + h * k3a, dth + h * k3b)
+
+    const thNext = th + (h / 6) * (k1a + 2 * k2a + 2 * k3a + k4a)
+    const dthNext = dth + (h / 6) * (k1b + 2 * k2b + 2 * k3b + k4b)
+
+    if (thNext <= 0) {
+      // linear step to the zero crossing
+      const f = th / (th - thNext)
+      x += f * h
+      dth = dth + f * (dthNext - dth)
+      th = 0
+    } else {
+      x += h
+      th = thNext
+      dth = dthNext
+    }
+    xi.push(x)
+    theta.push(th)
+    dtheta.push(dth)
+  }
+
+  const solution: LaneEmdenSolution = {
+    n: index,
+    xi,
+    theta,
+    dtheta,
+    xi1: x,
+    dtheta1: dth,
+  }
+  solutions.set(index, solution)
+  return solution
+}
+
+// ---------- scaled models ----------
+
+/**
+ * Mean molecular weight of fully ionised gas, 1/μ = 2X + 3Y/4 + Z/2.
+ */
+export function meanMolecularWeight(X: number, Y: number, Z: number): number {
+  return 1 / (2 * X + 0.75 * Y + 0.5 * Z)
+}
+
+/**
+ * Polytrope of index n scaled to a star of mass M (M☉) and radius
+ * R (R☉), sampled at `count` radii from the centre to the surface.
+ * μ sets the temperature scale (ideal gas, no radiation pressure).
+ */
+export function polytropeModel(
+  M: number,
+  R: number,
+  n: number,
+  mu: number,
+  count = 48,
+): PolytropeModel {
+  const sol = solveLaneEmden(n)
+  const Mg = Math.max(M, 1e-6) * M_SUN_G
+  const Rcm = Math.max(R, 1e-6) * R_SUN_CM
+
+  const rhoMean = Mg / ((4 / 3) * Math.PI * Rcm * Rcm * Rcm)
+  const rhoCentral = (rhoMean * sol.xi1) / (3 * -sol.dtheta1)
+  const PCentral =
+    (G * Mg * Mg) /
+    (4 * Math.PI * (sol.n + 1) * sol.dtheta1 * sol.dtheta1 * Math.pow(Rcm, 4))
+  const TCentral = (mu * M_H * PCentral) / (K_B * rhoCentral)
+
+  // m(ξ)/M = ξ² θ'(ξ) / (ξ₁² θ'(ξ₁))
+  const massNorm = sol.xi1 * sol.xi1 * sol.dtheta1
+
+  const samples: PolytropeSample[] = []
+  let j = 0
+  for (let i = 0; i < count; i++) {
+    const target = (sol.xi1 * i) / (count - 1)
+    while (j < sol.xi.length - 2 && sol.xi[j + 1] < target) j++
+    const span = sol.xi[j + 1] - sol.xi[j] || 1
+    const f = clamp((target - sol.xi[j]) / span, 0, 1)
+    const th = Math.max(sol.theta[j] + (sol.theta[j + 1] - sol.theta[j]) * f, 0)
+    const dth = sol.dtheta[j] + (sol.dtheta[j + 1] - sol.dtheta[j]) * f
+
+    samples.push({
+      r: target / sol.xi1,
+      m: clamp((target * target * dth) / massNorm, 0, 1),
+      rho: rhoCentral * Math.pow(th, sol.n),
+      P: PCentral * Math.pow(th, sol.n + 1),
+      T: TCentral * th,
+    })
+  }
+
+  return { n: sol.n, rhoCentral, PCentral, TCentral, rhoMean, samples }
+}
+
+/**
+ * Fractional radius r/R that encloses mass fraction q.
+ */
+export function radiusAtMassFraction(model: PolytropeModel, q: number): number {
+  const { samples } = model
+  const target = clamp(q, 0, 1)
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1]
+    const b = samples[i]
+    if (b.m >= target) {
+      const f = b.m > a.m ? (target - a.m) / (b.m - a.m) : 0
+      return a.r + (b.r - a.r) * f
+    }
+  }
+  return 1
+}
+
+/**
+ * Fractional radius where T has fallen to `frac` of its central value
+ * (T ∝ θ, so this is where θ = frac).
+ */
+export function radiusAtTemperatureFraction(model: PolytropeModel, frac: number): number {
+  const { samples, TCentral } = model
+  const target = clamp(frac, 0, 1) * TCentral
+  for (let i = 1; i < samples.length; i++) {
+    const a = samples[i - 1]
+    const b = samples[i]
+    if (b.T <= target) {
+      const f = a.T > b.T ? (a.T - target) / (a.T - b.T) : 0
+      return a.r + (b.r - a.r) * f
+    }
+  }
+  return 1
+}
+
+// ---------- engine states ----------
+
+/**
+ * Index that best describes a star at this point of its life, or null
+ * when there is no fluid star to model (black holes, PISN debris).
+ *
+ *   - protostars, brown dwarfs and M dwarfs below ~0.35 M☉: 1.5
+ *   - main-sequence stars above that: 3 (Eddington's standard model)
+ *   - giants: 3.5–4, to mimic their dense cores under huge envelopes
+ *   - white dwarfs: 1.5, stiffening towards 3 at the Chandrasekhar mass;
+ *     neutron stars ~1
+ */
+export function polytropicIndexFor(
+  phaseId: EvolutionPhaseId,
+  M: number,
+  remnant?: RemnantKind,
+): number | null {
+  if (remnant === "bh" || remnant === "none") return null
+  if (remnant === "ns") return 1
+  if (remnant === "wd") return lerp(1.5, 3, clamp((M - 0.6) / (1.44 - 0.6), 0, 1))
+  if (remnant === "bd") return 1.5
+
+  switch (phaseId) {
+    case "pms":
+      return 1.5
+    case "ms":
+    case "wr":
+      return lerp(1.5, 3, clamp((M - 0.3) / 0.3, 0, 1))
+    case "subgiant":
+    case "bsg":
+    case "hb":
+    case "lbv":
+      return 3.5
+    case "rgb":
+    case "agb":
+    case "rsg":
+      return 4
+    default:
+      // final phase before the remnant is revealed: still the old star
+      return 3
+  }
+}
+
+/**
+ * Interior model for an engine state; `remnant` only once the remnant
+ * has actually formed (as in classifyStar). μ comes from the core
+ * composition, so the centre heats up as hydrogen turns into helium.
+ */
+export function stellarInterior(
+  state: StarEvolutionState,
+  remnant?: RemnantKind,
+): StellarInterior | null {
+  const n = polytropicIndexFor(state.phaseId, state.M, remnant)
+  if (n === null) return null
+
+  const { X, Y, C, O, metals } = state.composition.core
+  const mu = meanMolecularWeight(X, Y, C + O + metals)
+
+  return {
+    model: polytropeModel(state.M, state.R, n, mu),
+    degenerate: remnant === "wd" || remnant === "ns",
+    coreResolved:
+      remnant !== undefined ||
+      !(
+        state.phaseId === "rgb" ||
+        state.phaseId === "hb" ||
+        state.phaseId === "agb" ||
+        state.phaseId === "rsg"
+      ),
+  }
+}
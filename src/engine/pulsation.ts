@@ -0,0 +1,154 @@
+// src/engine/pulsation.ts
+// Pulsating variables: where on the HR diagram an evolving star starts
+// to ring, and how fast.
+//
+//   - classical instability strip: a narrow band ~5500–7500 K, tilted to
+//     cooler temperatures at higher luminosity, where the He II
+//     ionisation zone sits at the right depth to drive radial
+//     pulsations (the κ mechanism)
+//       · intermediate-mass stars (≳ 2.5 M☉) crossing it as giants or
+//         supergiants: classical Cepheids, days to weeks
+//       · old low-mass stars (≲ 1 M☉) whose core-He-burning horizontal
+//         branch (~50 L☉) lies inside it: RR Lyrae, under a day. Only
+//         metal-poor HBs (Z ~ 0.0005–0.002) reach the strip; richer ones
+//         stay in the red clump, the poorest are too blue
+//   - cool, luminous AGB stars: Mira long-period variables, hundreds of
+//     days, with the biggest swings in radius
+//
+// Periods:
+//   - strip pulsators follow the period–mean-density relation
+//     P √(ρ̄/ρ̄☉) = Q, Q ≈ 0.04 d for the fundamental radial mode
+//   - Miras follow their period–luminosity relation
+//     (M_bol ≈ −4.3 − 3.3 (log P − 2.5), Whitelock et al. 2008)
+
+import type { EvolutionPhaseId } from "./starEvolutionEngine"
+
+export type VariableKind = "cepheid" | "rrLyrae" | "mira"
+
+export const VARIABLE_LABELS: Record<VariableKind, string> = {
+  cepheid: "Classical Cepheid",
+  rrLyrae: "RR Lyrae variable",
+  mira: "Mira variable",
+}
+
+export type PulsationState = {
+  kind: VariableKind
+  label: string
+  periodDays: number
+  radiusAmplitude: number // fractional radius swing (ΔR / R, half peak-to-peak)
+}
+
+export type PulsationInput = {
+  phaseId: EvolutionPhaseId
+  M: number     // M☉
+  R: number     // R☉
+  L: number     // L☉
+  T_eff: number // K
+}
+
+// fundamental-mode pulsation constant (days)
+const Q_FUNDAMENTAL = 0.04
+
+// strip edges: log T_eff at log L = 1.7, and the tilt per dex in L
+const STRIP_BLUE_EDGE = 3.87
+const STRIP_RED_EDGE = 3.78
+const STRIP_TILT = -0.035
+const STRIP_PIVOT_LOGL = 1.7
+
+// current masses (M☉) that separate Cepheids from RR Lyrae stars
+const CEPHEID_MIN_MASS = 2.5
+const RR_LYRAE_MAX_MASS = 1.0
+// RR Lyrae sit on the HB at ~50 L☉ (the curves' clump / ZAHB level);
+// brighter strip crossings on the way down from the RGB tip are not
+// RR Lyrae
+const RR_LYRAE_MAX_LOGL = 2.0
+
+// Mira regime: cool, luminous, thermally pulsing AGB stars
+const MIRA_MAX_TEFF = 4000
+const MIRA_MIN_LOGL = 3.0
+// luminosities the P–L relation is calibrated over (P ≈ 100–1000 d)
+const MIRA_PL_MIN_LOGL = 2.95
+const MIRA_PL_MAX_LOGL = 4.3
+
+const M_BOL_SUN = 4.74
+
+const AMPLITUDES: Record<VariableKind, number> = {
+  cepheid: 0.08,
+  rrLyrae: 0.1,
+  mira: 0.2,
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+// ---------- relations ----------
+
+/**
+ * Is (T_eff, L) inside the classical instability strip?
+ */
+export function inInstabilityStrip(T_eff: number, L: number): boolean {
+  const logT = Math.log10(Math.max(T_eff, 1))
+  const shift = STRIP_TILT * (Math.log10(Math.max(L, 1e-7)) - STRIP_PIVOT_LOGL)
+  return logT <= STRIP_BLUE_EDGE + shift && logT >= STRIP_RED_EDGE + shift
+}
+
+// P = Q / √(ρ̄/ρ̄☉), with ρ̄/ρ̄☉ = M / R³ in solar units
+function periodFromMeanDensity(M: number, R: number): number {
+  const relativeDensity = Math.max(M, 1e-6) / Math.pow(Math.max(R, 1e-6), 3)
+  return Q_FUNDAMENTAL / Math.sqrt(relativeDensity)
+}
+
+// Mira period–luminosity relation, inverted for P; L is held to the
+// calibrated range rather than extrapolated
+function miraPeriod(L: number): number {
+  const logL = clamp(Math.log10(Math.max(L, 1e-7)), MIRA_PL_MIN_LOGL, MIRA_PL_MAX_LOGL)
+  const Mbol = M_BOL_SUN - 2.5 * logL
+  return Math.pow(10, 2.5 - (Mbol + 4.3) / 3.3)
+}
+
+// ---------- public API ----------
+
+/**
+ * The star's pulsation, if it is a classical or long-period variable
+ * at this point of its life, else null.
+ */
+export function classifyPulsation({
+  phaseId,
+  M,
+  R,
+  L,
+  T_eff,
+}: PulsationInput): PulsationState | null {
+  const logL = Math.log10(Math.max(L, 1e-7))
+
+  let kind: VariableKind | null = null
+  if (phaseId === "agb" && T_eff < MIRA_MAX_TEFF && logL >= MIRA_MIN_LOGL) {
+    kind = "mira"
+  } else if (inInstabilityStrip(T_eff, L)) {
+    if (phaseId === "hb" && M < RR_LYRAE_MAX_MASS && logL <= RR_LYRAE_MAX_LOGL) {
+      kind = "rrLyrae"
+    } else if (
+      M >= CEPHEID_MIN_MASS &&
+      (phaseId === "subgiant" ||
+        phaseId === "rgb" ||
+        phaseId === "hb" ||
+        phaseId === "agb" ||
+        phaseId === "bsg" ||
+        phaseId === "rsg")
+    ) {
+      kind = "cepheid"
+    }
+  }
+  if (!kind) return null
+
+  const periodDays = kind === "mira" ? miraPeriod(L) : periodFromMeanDensity(M, R)
+  return {
+    kind,
+    label: VARIABLE_LABELS[kind],
+    periodDays: clamp(periodDays, 0.05, 3000),
+    radiusAmplitude: AMPLITUDES[kind],
+  }
+}
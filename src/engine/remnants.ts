@@ -0,0 +1,220 @@
+// src/engine/remnants.ts
+// Compact remnants: fate map, initial–final mass relation and remnant sizes.
+//
+//   - White dwarf:  the bare C/O core left after the AGB superwind
+//   - Neutron star: proto-NS baryonic mass → gravitational mass
+//                   (binding energy carried off by neutrinos)
+//   - Black hole:   proto-NS + fallback of the pre-supernova star
+//   - Nothing:      pair-instability supernovae disrupt the whole star
+//   - Brown dwarf:  never a star in the first place; keeps all its mass
+
+import type { FateKind, RemnantKind } from "./starEvolutionEngine"
+import { coreMassAtPhaseEnd } from "./massLoss"
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+// Chandrasekhar mass in M☉
+export const M_CHANDRASEKHAR = 1.44
+
+/**
+ * Baryonic → gravitational mass of a neutron star (Timmes et al. 1996):
+ *   M_bary - M_grav ≈ 0.075 M_grav^2
+ */
+function gravitationalFromBaryonic(M_bary: number): number {
+  const k = 0.075
+  return (-1 + Math.sqrt(1 + 4 * k * M_bary)) / (2 * k)
+}
+
+// ---------- fate map ----------
+
+export const FATE_LABELS: Record<FateKind, string> = {
+  wd: "Planetary nebula + white dwarf",
+  ecsn: "Electron-capture supernova",
+  ccsn: "Core-collapse supernova",
+  fallbackBh: "Weak supernova with fallback",
+  failedSn: "Failed supernova (direct collapse)",
+  ppisn: "Pulsational pair-instability supernova",
+  pisn: "Pair-instability supernova",
+  bd: "Never ignites — fades as a brown dwarf",
+}
+
+export function remnantForFate(fate: FateKind): RemnantKind {
+  switch (fate) {
+    case "wd":
+      return "wd"
+    case "ecsn":
+    case "ccsn":
+      return "ns"
+    case "pisn":
+      return "none"
+    case "bd":
+      return "bd"
+    default:
+      return "bh"
+  }
+}
+
+/**
+ * Highest initial mass (M☉) that still makes a white dwarf.
+ * Metal-poor stars have hotter, more compact cores and ignite carbon at
+ * lower mass (~7 M☉ at Z = 1e-4 vs ~8 M☉ at solar Z); CNO-rich cores
+ * burn hotter and nudge it down a little more.
+ */
+export function whiteDwarfUpperMass(Z: number, cnoFraction: number): number {
+  const Zsun = 0.02
+  const logZrel = Math.log10(clamp(Z / Zsun, 1e-3, 2))
+  const cnoShift = 1 - 0.1 * (clamp(cnoFraction, 0, 1) - 0.3)
+  return clamp(8 + 0.5 * logZrel, 6.5, 8.5) * cnoShift
+}
+
+// width (M☉) of the electron-capture supernova window above the WD limit
+const ECSN_WINDOW = 1.5
+
+/**
+ * Decide how the star dies from its initial mass, composition and the
+ * mass it still has after winds (M_final).
+ *
+ *   M0 < M_up(Z)                → white dwarf
+ *   M_up ≤ M0 < M_up + 1.5      → electron-capture SN (O/Ne/Mg core)
+ *   otherwise, by "compactness" = M_He + 0.3 (M_final − M_He):
+ *     < 9.4                     → core-collapse SN → neutron star
+ *     9.4–12                    → weak SN, fallback → black hole
+ *     ≥ 12                      → failed SN, direct collapse → black hole
+ *   and by final He-core mass (pair instability):
+ *     35–65 M☉                  → pulsational PISN → black hole
+ *     65–130 M☉                 → PISN, nothing left
+ *     ≥ 130 M☉                  → photodisintegration, direct collapse
+ *
+ * Low-Z stars lose less mass, keep their envelopes and so reach the BH
+ * thresholds at a lower initial mass (~19 M☉ instead of ~25 M☉).
+ */
+export function decideFate(
+  M0: number,
+  Z: number,
+  cnoFraction: number,
+  M_final: number,
+): FateKind {
+  const M_up = whiteDwarfUpperMass(Z, cnoFraction)
+  if (M0 < M_up) return "wd"
+  if (M0 < M_up + ECSN_WINDOW) return "ecsn"
+
+  const M_he = Math.min(coreMassAtPhaseEnd(M0, "rgb", "ns"), M_final)
+
+  if (M_he >= 130) return "failedSn"
+  if (M_he >= 65) return "pisn"
+  if (M_he >= 35) return "ppisn"
+
+  const compactness = M_he + 0.3 * Math.max(M_final - M_he, 0)
+  if (compactness >= 12) return "failedSn"
+  if (compactness >= 9.4) return "fallbackBh"
+  return "ccsn"
+}
+
+// ---------- remnant masses ----------
+
+/**
+ * Remnant (gravitational) mass in M☉ from the initial mass M0, the
+ * fate and the mass the star still has when it dies (after winds).
+ */
+export function computeRemnantMass(
+  M0: number,
+  fate: FateKind,
+  M_final: number,
+): number {
+  const remnant = remnantForFate(fate)
+
+  if (remnant === "none") {
+    // pair-instability SN: the whole star is blown apart
+    return 0
+  }
+
+  if (remnant === "bd") {
+    // no winds, no nuclear burning: the object keeps everything
+    return M_final
+  }
+
+  if (remnant === "wd") {
+    // WD mass is the C/O core mass, never more than the star has left
+    const M_core = coreMassAtPhaseEnd(M0, "agb", "wd")
+    return clamp(Math.min(M_core, M_final), 0.15, M_CHANDRASEKHAR - 0.02)
+  }
+
+  // He-core mass sets the iron core and how much falls back
+  const M_he = coreMassAtPhaseEnd(M0, "rgb", remnant)
+
+  // Proto-neutron star: ~1.3 M☉ baryonic plus a little more for bigger cores
+  const M_proto = clamp(1.3 + 0.06 * (M_he - 2), 1.3, 2.3)
+
+  if (fate === "ecsn") {
+    // O/Ne/Mg core collapses right at the Chandrasekhar mass
+    return gravitationalFromBaryonic(1.37)
+  }
+
+  if (remnant === "ns") {
+    return gravitationalFromBaryonic(M_proto)
+  }
+
+  // Black hole: fraction of the remaining star that falls back,
+  // rising from 0 (He core ~5 M☉) to direct collapse (He core ≳ 10 M☉).
+  // Failed supernovae swallow everything.
+  const f_fb =
+    fate === "fallbackBh" ? clamp((M_he - 5) / 5, 0.3, 1) : 1
+  let M_bary = M_proto + f_fb * Math.max(M_final - M_proto, 0)
+
+  // Pulsational pair instability sheds the outer layers first,
+  // capping the black hole near the bottom of the PISN mass gap.
+  if (fate === "ppisn") {
+    M_bary = Math.min(M_bary, 45)
+  }
+
+  // ~10% of the collapsing mass escapes as neutrinos
+  return Math.max(0.9 * M_bary, 2.5)
+}
+
+/**
+ * White-dwarf radius in R☉ (Nauenberg 1972 mass–radius relation).
+ * Heavier white dwarfs are SMALLER: ~0.014 R☉ at 0.6 M☉,
+ * ~0.006 R☉ at 1.2 M☉.
+ */
+export function whiteDwarfRadius(M: number): number {
+  const x = clamp(M / M_CHANDRASEKHAR, 0.05, 0.99)
+  return 0.0126 * Math.pow(x, -1 / 3) * Math.sqrt(1 - Math.pow(x, 4 / 3))
+}
+
+/**
+ * White dwarf of mass M (M☉) after cooling for tCoolMyr: luminosity (L☉)
+ * from Mestel's law for a C/O interior,
+ *   t_cool ≈ 8.8 Myr (12/A) M^(5/7) (μ/2)^(−2/7) L^(−5/7)   (A ≈ 14, μ ≈ 2),
+ * and T_eff from that L and the mass–radius relation. Young white dwarfs
+ * are capped at ~100 L☉ (the top of the cooling track).
+ */
+export function whiteDwarfCoolingState(
+  M: number,
+  tCoolMyr: number,
+): { L: number; R: number; T_eff: number } {
+  const tYr = Math.max(tCoolMyr, 1e-3) * 1e6
+  const scaleYr = 8.8e6 * (12 / 14) * Math.pow(clamp(M, 0.1, M_CHANDRASEKHAR), 5 / 7)
+  const L = Math.min(Math.pow(scaleYr / tYr, 7 / 5), 100)
+  const R = whiteDwarfRadius(M)
+  const T_eff = 5772 * Math.pow(L / (R * R), 0.25)
+  return { L, R, T_eff }
+}
+
+/**
+ * Neutron-star radius in km: roughly 12 km, shrinking slightly
+ * towards the maximum mass.
+ */
+export function neutronStarRadiusKm(M: number): number {
+  return clamp(12.5 - 0.8 * (M - 1.4), 10, 13)
+}
+
+/**
+ * Schwarzschild radius in km: R_s = 2GM/c^2 ≈ 2.95 km × M/M☉
+ */
+export function schwarzschildRadiusKm(M: number): number {
+  return 2.95 * M
+}
@@ -0,0 +1,121 @@
+// src/engine/rotation.ts
+// Stellar rotation, set on the Build screen as ω = Ω / Ω_crit (0 = no
+// spin, 1 = break-up at the equator).
+//
+//   - rotational mixing drags fresh hydrogen into the core and helium out
+//     of it: longer main sequence, bigger core, brighter star
+//     (Geneva-style models: ω ≈ 0.4 → MS ~25% longer for massive stars)
+//   - centrifugal support flattens the star (Roche model)
+//   - whatever angular momentum survives the winds ends up in the remnant:
+//     faster pulsars, spinning (Kerr) black holes
+
+import type { RemnantKind } from "./starEvolutionEngine"
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+// Highest ω the Build screen allows (break-up itself is not a star)
+export const OMEGA_MAX = 0.95
+
+export function clampRotation(omega: number | undefined): number {
+  return clamp(omega ?? 0, 0, OMEGA_MAX)
+}
+
+/**
+ * How much rotational mixing matters at this mass, 0–1.
+ * Stars below ~1.2 M☉ have convective envelopes and magnetic winds that
+ * brake them early on the MS, so their mixing is negligible.
+ */
+function mixingWeight(M: number): number {
+  return clamp((M - 1.2) / (3 - 1.2), 0, 1)
+}
+
+/**
+ * Main-sequence lifetime multiplier from rotational mixing:
+ * ~1.25 at ω = 0.4, ~1.55 near break-up, 1 for low-mass stars.
+ */
+export function rotationalLifetimeFactor(omega: number, M: number): number {
+  return 1 + 0.6 * clampRotation(omega) * mixingWeight(M)
+}
+
+/**
+ * Luminosity multiplier at the end of the MS and beyond: the mixed core
+ * has a higher mean molecular weight and a bigger convective core.
+ */
+export function rotationalLuminosityFactor(omega: number, M: number): number {
+  return 1 + 0.4 * clampRotation(omega) * mixingWeight(M)
+}
+
+/**
+ * Surface nitrogen enhancement N / N₀ by the end of the MS: mixing
+ * dredges CN-cycled material up from the core (×3–5 for fast-rotating
+ * B stars, none for slow or low-mass ones).
+ */
+export function rotationalNitrogenFactor(omega: number, M: number): number {
+  return 1 + 4 * clampRotation(omega) * mixingWeight(M)
+}
+
+/**
+ * Equatorial / polar radius in the Roche model,
+ * R_eq / R_pol ≈ 1 + ω² / 2  (1.5 at break-up).
+ */
+export function oblateness(omega: number): number {
+  const w = clampRotation(omega)
+  return 1 + 0.5 * w * w
+}
+
+/**
+ * ω after the star has changed radius from R0 to R at constant angular
+ * momentum: Ω ∝ R^-2 and Ω_crit ∝ R^-1.5, so ω ∝ R^-0.5. Giants are
+ * slow rotators; contracting protostars spin up.
+ */
+export function rotationAtRadius(omega0: number, R0: number, R: number): number {
+  return clampRotation(clampRotation(omega0) * Math.sqrt(R0 / Math.max(R, 1e-3)))
+}
+
+/**
+ * Equatorial velocity in km/s for a star of mass M (M☉) and radius
+ * R (R☉): v_crit = sqrt(2GM / 3R_pol) ≈ 357 km/s × sqrt(M/R) and
+ * v_eq ≈ ω v_crit (close enough away from break-up).
+ */
+export function equatorialVelocityKms(omega: number, M: number, R: number): number {
+  return clampRotation(omega) * 357 * Math.sqrt(M / Math.max(R, 1e-3))
+}
+
+// ---------- remnant spin ----------
+
+export type RemnantSpin =
+  | { kind: "period"; periodMs: number } // neutron star: birth spin period
+  | { kind: "kerr"; a: number }          // black hole: dimensionless spin a*
+  | { kind: "none" }
+
+/**
+ * Spin of the remnant at birth.
+ *
+ *   - NS: ~100 ms for a slowly rotating progenitor, down to a couple of
+ *         milliseconds (magnetar territory) near break-up
+ *   - BH: a* ≈ 1.2 ω, reduced by the angular momentum the wind carries
+ *         off with the stripped envelope; capped at the Thorne limit 0.998
+ */
+export function remnantSpin(
+  omega: number,
+  remnant: RemnantKind,
+  M0: number,
+  M_final: number,
+): RemnantSpin {
+  const w = clampRotation(omega)
+
+  if (remnant === "ns") {
+    return { kind: "period", periodMs: 2 + 100 * Math.pow(1 - w, 3) }
+  }
+
+  if (remnant === "bh") {
+    const retained = clamp(M_final / Math.max(M0, 1e-3), 0, 1)
+    return { kind: "kerr", a: clamp(1.2 * w * (0.5 + 0.5 * retained), 0, 0.998) }
+  }
+
+  return { kind: "none" }
+}
@@ -0,0 +1,189 @@
+// src/engine/spectralClass.ts
+// MK classification: spectral type + subclass from T_eff, luminosity
+// class from how far the star sits above the main sequence (or from
+// log g when it is known), e.g. "G2 V", "M1 III", "B0 Ia".
+//
+// Remnants get their own labels: white dwarfs the DA scheme with the
+// temperature index 50400 / T_eff, neutron stars and black holes no
+// spectrum at all. Brown dwarfs run on past M into L, T and Y.
+
+import type { RemnantKind } from "./starEvolutionEngine"
+
+export type SpectralLetter =
+  | "O" | "B" | "A" | "F" | "G" | "K" | "M" | "L" | "T" | "Y"
+
+export type LuminosityClass = "Ia" | "Ib" | "II" | "III" | "IV" | "V" | "VI"
+
+export type SpectralClass =
+  | {
+      kind: "star"
+      letter: SpectralLetter
+      subclass: number                  // 0–9
+      luminosityClass: LuminosityClass | null // null for L / T / Y dwarfs
+      label: string                     // "G2 V"
+    }
+  | { kind: "whiteDwarf"; temperatureIndex: number; label: string } // "DA3"
+  | { kind: "compact"; remnant: "ns" | "bh" | "none"; label: string }
+
+export type ClassifyInput = {
+  T_eff: number
+  logL: number
+  logg?: number          // cgs; used for the luminosity class when given
+  remnant?: RemnantKind  // only once the remnant has actually formed
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+const LETTERS: SpectralLetter[] = ["O", "B", "A", "F", "G", "K", "M", "L", "T", "Y"]
+
+// Dwarf T_eff scale (Pecaut & Mamajek 2013, extended into L/T/Y).
+// Types are coded as 10 × letter index + subclass: O0 = 0, B0 = 10, ...
+const TYPE_SCALE: { code: number; T: number }[] = [
+  { code: 3, T: 44900 },  // O3
+  { code: 5, T: 41400 },  // O5
+  { code: 7, T: 36500 },  // O7
+  { code: 10, T: 31400 }, // B0
+  { code: 12, T: 20600 }, // B2
+  { code: 15, T: 15700 }, // B5
+  { code: 18, T: 12500 }, // B8
+  { code: 20, T: 9700 },  // A0
+  { code: 25, T: 8080 },  // A5
+  { code: 30, T: 7220 },  // F0
+  { code: 35, T: 6510 },  // F5
+  { code: 40, T: 5920 },  // G0
+  { code: 42, T: 5770 },  // G2 (the Sun)
+  { code: 45, T: 5660 },  // G5
+  { code: 50, T: 5280 },  // K0
+  { code: 55, T: 4450 },  // K5
+  { code: 60, T: 3850 },  // M0
+  { code: 65, T: 3060 },  // M5
+  { code: 69, T: 2400 },  // M9
+  { code: 70, T: 2250 },  // L0
+  { code: 75, T: 1700 },  // L5
+  { code: 80, T: 1300 },  // T0
+  { code: 85, T: 1000 },  // T5
+  { code: 90, T: 500 },   // Y0
+  { code: 92, T: 350 },   // Y2
+]
+
+// Zero-age main sequence in the HR plane, for the luminosity class
+const MS_LINE: { logT: number; logL: number }[] = [
+  { logT: 3.45, logL: -3.0 },
+  { logT: 3.58, logL: -1.2 },
+  { logT: 3.72, logL: -0.4 },
+  { logT: 3.76, logL: 0.0 },
+  { logT: 3.86, logL: 0.8 },
+  { logT: 3.99, logL: 1.5 },
+  { logT: 4.19, logL: 2.7 },
+  { logT: 4.5, logL: 4.3 },
+  { logT: 4.65, logL: 5.6 },
+]
+
+// Spectral-type code from T_eff, interpolated in log T between anchors
+function typeCode(T_eff: number): number {
+  const logT = Math.log10(Math.max(T_eff, 1))
+  const first = TYPE_SCALE[0]
+  const last = TYPE_SCALE[TYPE_SCALE.length - 1]
+  if (T_eff >= first.T) return first.code
+  if (T_eff <= last.T) return last.code
+
+  for (let i = 0; i < TYPE_SCALE.length - 1; i++) {
+    const hot = TYPE_SCALE[i]
+    const cool = TYPE_SCALE[i + 1]
+    if (T_eff <= hot.T && T_eff >= cool.T) {
+      const f = (Math.log10(hot.T) - logT) / (Math.log10(hot.T) - Math.log10(cool.T))
+      return lerp(hot.code, cool.code, f)
+    }
+  }
+  return last.code
+}
+
+function mainSequenceLogL(logT: number): number {
+  const pts = MS_LINE
+  if (logT <= pts[0].logT) return pts[0].logL
+  for (let i = 0; i < pts.length - 1; i++) {
+    const a = pts[i]
+    const b = pts[i + 1]
+    if (logT <= b.logT) {
+      return lerp(a.logL, b.logL, (logT - a.logT) / (b.logT - a.logT))
+    }
+  }
+  const a = pts[pts.length - 2]
+  const b = pts[pts.length - 1]
+  return lerp(a.logL, b.logL, (logT - a.logT) / (b.logT - a.logT))
+}
+
+/**
+ * Luminosity class. With log g: the usual rough bins (dwarfs ≳ 4,
+ * giants ~1–3.5, supergiants below ~1, shifted up ~1 dex for hot stars
+ * whose supergiants still have log g ~ 3). Without it: dwarfs and
+ * subgiants by their height above the ZAMS at the same T_eff, evolved
+ * stars by luminosity alone (giants ≲ 10^3.8 L☉, supergiants ≳ 10^4.6).
+ */
+function luminosityClass(logT: number, logL: number, logg?: number): LuminosityClass {
+  if (logg !== undefined && Number.isFinite(logg)) {
+    const hotShift = clamp((logT - 3.9) / 0.6, 0, 1)
+    const g = logg - hotShift
+    if (g >= 3.9) return "V"
+    if (g >= 3.4) return "IV"
+    if (g >= 1.5) return "III"
+    if (g >= 0.7) return "II"
+    return logL >= 5.2 ? "Ia" : "Ib"
+  }
+
+  const dLogL = logL - mainSequenceLogL(logT)
+  if (dLogL < -0.8) return "VI"
+  if (dLogL < 0.6) return "V"
+  if (dLogL < 1.2) return "IV"
+  if (logL < 3.8) return "III"
+  if (logL < 4.6) return "II"
+  return logL >= 5.2 ? "Ia" : "Ib"
+}
+
+// ---------- public API ----------
+
+/**
+ * MK class for a star (or remnant) at a given T_eff and L.
+ */
+export function classifyStar({ T_eff, logL, logg, remnant }: ClassifyInput): SpectralClass {
+  if (remnant === "ns") return { kind: "compact", remnant, label: "Neutron star" }
+  if (remnant === "bh") return { kind: "compact", remnant, label: "Black hole" }
+  if (remnant === "none") return { kind: "compact", remnant, label: "No remnant" }
+
+  const logT = Math.log10(Math.max(T_eff, 1))
+
+  // white dwarfs: by fate, or anything ≳ 3 dex under the main sequence
+  const farBelowMs = logL - mainSequenceLogL(logT) < -3 && T_eff > 4000
+  if (remnant === "wd" || (remnant !== "bd" && farBelowMs)) {
+    const temperatureIndex = clamp(Math.round((50400 / Math.max(T_eff, 1)) * 2) / 2, 0.5, 13)
+    return {
+      kind: "whiteDwarf",
+      temperatureIndex,
+      label: `DA${temperatureIndex}`,
+    }
+  }
+
+  const code = Math.round(typeCode(T_eff))
+  const letterIndex = clamp(Math.floor(code / 10), 0, LETTERS.length - 1)
+  const letter = LETTERS[letterIndex]
+  const subclass = clamp(code - 10 * letterIndex, 0, 9)
+
+  // L / T / Y objects are all dwarfs; the MK classes stop at M
+  const lumClass = letterIndex >= 7 ? null : luminosityClass(logT, logL, logg)
+
+  return {
+    kind: "star",
+    letter,
+    subclass,
+    luminosityClass: lumClass,
+    label: lumClass ? `${letter}${subclass} ${lumClass}` : `${letter}${subclass}`,
+  }
+}
@@ -1,10 +1,22 @@
 // src/engine/starEngine.ts
+import {
+  brownDwarfContractionMyr,
+  brownDwarfStateAtAge,
+  clampStellarMass,
+  eddingtonLimitedLuminosity,
+  eddingtonLuminosity,
+  massRegime,
+  veryMassiveRadius,
+  type MassRegime,
+} from "./massRegimes"
+import { energyGeneration, type EnergyGeneration } from "./nuclearBurning"
 
 // Input parameters controlled by the sliders
 export type StarParams = {
   mass: number          // in solar masses (M☉)
   metallicity: number   // Z
   cnoFraction: number   // fraction of Z in CNO elements (0–1)
+  rotation: number      // initial spin Ω / Ω_crit (0–0.95)
 }
 
 // Output: physical state of a main-sequence star, in solar-ish units
@@ -16,10 +28,17 @@ export type InitialStarState = {
   Z_cno: number   // CNO part of metals
   Z_other: number // non-CNO metals
 
+  // Which part of the mass range we are in
+  regime: MassRegime
+
   // Structure
   L_ms: number    // main-sequence luminosity in L☉
   R_ms: number    // main-sequence radius in R☉
   T_eff: number   // effective temperature in K
+  eddingtonRatio: number // Γ = L_ms / L_Edd (→ 1 for very massive stars)
+
+  // Core: pp chain vs CNO cycle (null for brown dwarfs, which never burn H)
+  burning: EnergyGeneration | null
 
   // HR diagram coordinates
   logL: number    // log10(L/L☉)
@@ -38,6 +57,9 @@ function clamp(x: number, min: number, max: number): number {
  * - Uses simple mass–luminosity and mass–radius scalings
  * - Includes helium enrichment with metallicity
  * - Modifies temperature/luminosity slightly with Z and CNO fraction
+ * - Brown dwarfs never reach a main sequence: their "anchor" is the
+ *   state at the end of contraction / deuterium burning
+ * - Above 50 M☉ luminosity is held below the Eddington limit
  *
  * This is NOT a full stellar evolution code, but it respects the
  * qualitative trends used in real stellar astrophysics.
@@ -46,7 +68,7 @@ export function computeInitialStar(params: StarParams): InitialStarState {
   const { mass, metallicity, cnoFraction } = params
 
   // --- Basic sanity / clamping of inputs ---
-  const M = clamp(mass, 0.1, 50)          // stay in 0.1–50 M☉
+  const M = clampStellarMass(mass)        // stay in 0.01–300 M☉
   const Z = clamp(metallicity, 0.0, 0.04) // 0–0.04 (~0–2 Z☉)
   const fCNO = clamp(cnoFraction, 0, 1)
 
@@ -72,17 +94,31 @@ export function computeInitialStar(params: StarParams): InitialStarState {
   //   low-mass < 0.5 M☉:   L ∝ M^2.3
   //   0.5–2 M☉:           L ∝ M^4
   //   > 2 M☉:             L ∝ M^3.5
+  //   > 50 M☉:            Eddington-limited, L ∝ ~M^1.25
+  const regime = massRegime(M, Z)
+
   let L_ms_base: number
   if (M < 0.5) {
     L_ms_base = Math.pow(M, 2.3)
   } else if (M < 2) {
     L_ms_base = Math.pow(M, 4.0)
-  } else {
+  } else if (M <= 50) {
     L_ms_base = Math.pow(M, 3.5)
+  } else {
+    L_ms_base = eddingtonLimitedLuminosity(M, X)
   }
 
-  // Radius scaling: roughly R ∝ M^0.8 on the main sequence
-  const R_ms = Math.pow(M, 0.8)
+  // Radius scaling: roughly R ∝ M^0.8 on the main sequence,
+  // flattening for the most massive stars
+  let R_ms = M <= 50 ? Math.pow(M, 0.8) : veryMassiveRadius(M)
+
+  // Brown dwarfs: no hydrogen burning, so use the substellar relations
+  // at the end of contraction instead of the main-sequence laws
+  if (regime === "brownDwarf") {
+    const bd = brownDwarfStateAtAge(M, brownDwarfContractionMyr(M))
+    L_ms_base = bd.L
+    R_ms = bd.R
+  }
 
   // --- Metallicity dependence (L and T) ---
   // Higher Z → higher opacity → slightly cooler *and* dimmer at fixed M.
@@ -102,36 +138,54 @@ export function computeInitialStar(params: StarParams): InitialStarState {
   const metallicityExponent = -0.10
   let T_eff = T_base * Math.pow(Z_rel, metallicityExponent)
 
-  // --- CNO dependence (only really matters for more massive stars) ---
-  // For M ≳ 1.3 M☉ the CNO cycle matters; for low mass it’s basically pp-chain.
-  if (M > 1.3) {
-    // Weight that rises from ~0 at 1.3 M☉ to ~1.0 at ~5 M☉
-    const massWeight = clamp((M - 1.3) / (5.0 - 1.3), 0, 1)
-
-    // Let fCNO depart from a "reference" 0.3 (roughly solar mix)
-    const fCNO_ref = 0.3
+  // --- CNO dependence (only matters where the CNO cycle runs) ---
+  // Weighted by the share of energy the CNO cycle makes for a roughly
+  // solar mix: ~0 below 1 M☉ (pp chain), ~1 above a few M☉.
+  const fCNO_ref = 0.3
+  const cnoWeight =
+    regime === "brownDwarf"
+      ? 0
+      : energyGeneration(M, R_ms, L_ms, X, Z, Z * fCNO_ref)?.cnoFraction ?? 0
+  if (cnoWeight > 0) {
+    // Let fCNO depart from the reference mix
     const deltaCNO = fCNO - fCNO_ref
 
     // Up to ~±20% in L and ~±8% in T for extreme CNO at high mass
-    const L_cnoBoost = 1 + 0.4 * deltaCNO * massWeight
-    const T_cnoBoost = 1 + 0.15 * deltaCNO * massWeight
+    const L_cnoBoost = 1 + 0.4 * deltaCNO * cnoWeight
+    const T_cnoBoost = 1 + 0.15 * deltaCNO * cnoWeight
 
     L_ms *= L_cnoBoost
     T_eff *= T_cnoBoost
   }
 
+  // Nothing shines above the Eddington limit: metal-poor / CNO-rich
+  // boosts are capped just below it (keeping R, so T follows L)
+  const L_edd = eddingtonLuminosity(M, X)
+  if (L_ms > 0.95 * L_edd) {
+    T_eff *= Math.pow((0.95 * L_edd) / L_ms, 0.25)
+    L_ms = 0.95 * L_edd
+  }
+
   const logL = Math.log10(L_ms)
   const logT = Math.log10(T_eff)
 
+  const eddingtonRatio = L_ms / L_edd
+
+  const burning =
+    regime === "brownDwarf" ? null : energyGeneration(M, R_ms, L_ms, X, Z, Z_cno)
+
   return {
     X,
     Y,
     Z,
     Z_cno,
     Z_other,
+    regime,
     L_ms,
     R_ms,
     T_eff,
+    eddingtonRatio,
+    burning,
     logL,
     logT,
   }
@@ -17,6 +17,25 @@ import type {
   EvolutionPhase,
   RemnantKind,
 } from "./starEvolutionEngine"
+import {
+  computeMassLossTrack,
+  coreMassAtPhaseEnd,
+  massAtPhaseEnd,
+  massAtPhaseFraction,
+  type MassLossTrack,
+} from "./massLoss"
+import { computeRemnantMass, whiteDwarfRadius } from "./remnants"
+import { rotationalLuminosityFactor } from "./rotation"
+import {
+  BROWN_DWARF_SHOWN_MYR,
+  brownDwarfContractionMyr,
+  brownDwarfStateAtAge,
+  clampStellarMass,
+  massiveRoute,
+} from "./massRegimes"
+import { trackStateAtAge } from "./trackTables"
+import { compositionAtPhase, type CompositionState } from "./composition"
+import { classifyStructure, type StellarStructure } from "./structure"
 
 // What the Simulation screen actually needs at a given time.
 export type StarEvolutionState = {
@@ -39,8 +58,17 @@ export type StarEvolutionState = {
   R: number // radius in R_sun
   T_eff: number // effective temperature in K
 
+  // current mass after stellar winds, and the wind itself
+  M: number    // mass in M_sun
+  Mdot: number // mass-loss rate in M_sun / yr
+
   logL: number
   logT: number
+
+  // core / surface abundances and core sizes (composition.ts)
+  composition: CompositionState
+  // convective / radiative zones (structure.ts)
+  structure: StellarStructure
 }
 
 // Convenience type for a state we interpolate between
@@ -50,15 +78,50 @@ type StatePoint = {
   T_eff: number
 }
 
+// A phase runs start → end in a straight line, or through intermediate
+// keypoints (at increasing fractions of the phase) when its path on the
+// HR diagram isn't straight: the helium flash, blue loops.
+// `logSpace` shapes interpolate L and T_eff in log space and take R from
+// them, for crossings that span decades in T_eff (post-AGB).
 type PhaseShape = {
   start: StatePoint
   end: StatePoint
+  path?: { frac: number; point: StatePoint }[]
+  logSpace?: boolean
+}
+
+// Discrete, dated events along the track that the UI can announce
+export type EvolutionEventKind = "heliumFlash" | "thermalPulse"
+
+export type EvolutionEvent = {
+  kind: EvolutionEventKind
+  tMyr: number
+  phaseId: EvolutionPhaseId // the phase the event belongs to
+  label: string
 }
 
 // Internal shape keys: these are the "base" phases that share
-// geometry between all final fates. The final wdFinal/nsFinal/bhFinal
-// phases all reuse the "wd" shape.
-type ShapePhaseId = "ms" | "subgiant" | "rgb" | "hb" | "agb" | "wd"
+// geometry between all final fates. The remnant-specific final phases
+// (wdFinal, nsFinal, bhFinal, pisnFinal, bdFinal) all reuse the "wd" shape.
+// Not every star visits every phase, so a star only gets the shapes it
+// needs; "wd" is always present.
+type ShapePhaseId =
+  | "pms"
+  | "ms"
+  | "subgiant"
+  | "rgb"
+  | "hb"
+  | "agb"
+  | "postAgb"
+  | "bsg"
+  | "rsg"
+  | "lbv"
+  | "wr"
+  | "wd"
+
+type PhaseShapes = Partial<Record<ShapePhaseId, PhaseShape>> & {
+  wd: PhaseShape
+}
 
 // ---------- small helpers ----------
 
@@ -70,6 +133,30 @@ function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t
 }
 
+function lerpPoint(a: StatePoint, b: StatePoint, t: number): StatePoint {
+  return {
+    L: lerp(a.L, b.L, t),
+    R: lerp(a.R, b.R, t),
+    T_eff: lerp(a.T_eff, b.T_eff, t),
+  }
+}
+
+// position along a phase shape, through its keypoints if it has any
+function pointOnShape(shape: PhaseShape, f: number): StatePoint {
+  let from = { frac: 0, point: shape.start }
+  for (const to of [...(shape.path ?? []), { frac: 1, point: shape.end }]) {
+    if (f <= to.frac) {
+      const span = to.frac - from.frac
+      const t = span > 0 ? (f - from.frac) / span : 1
+      return shape.logSpace
+        ? blendPoint(from.point, to.point.L, to.point.T_eff, t)
+        : lerpPoint(from.point, to.point, t)
+    }
+    from = to
+  }
+  return shape.end
+}
+
 function safePhaseFraction(phase: EvolutionPhase, tMyr: number): number {
   const { tStartMyr, tEndMyr } = phase
   const dt = tEndMyr - tStartMyr
@@ -91,22 +178,150 @@ function R_from_LT(L: number, T: number): number {
 }
 
 // Small CNO → luminosity boost helper.
-// f in [0,1]  ⇒ multiplier in [1.0, 1.15]
-function cnoBoost(f: number): number {
-  return 1 + 0.15 * f
+// f in [0,1]  ⇒ multiplier in [1.0, 1.15], scaled by the share of the
+// energy the CNO cycle actually makes (so pp-chain stars don't notice)
+function cnoBoost(f: number, cnoShare: number): number {
+  return 1 + 0.15 * f * cnoShare
+}
+
+// ---------- helium flash and thermal pulses ----------
+// Below ~2 M☉ the helium core is degenerate when it ignites, so helium
+// burning starts in a runaway flash at the RGB tip and the star drops
+// onto the clump / zero-age HB almost at once. Later, on the AGB, the
+// helium shell ignites again and again: each thermal pulse is a brief
+// surge in luminosity followed by a long quiet interpulse phase. Stars
+// heavy enough to end as NS / BH skip both.
+
+const HELIUM_FLASH_MAX_MASS = 2.0
+const HELIUM_FLASH_FRACTION = 0.02 // of the HB spent falling from the tip
+const ZAHB_LUMINOSITY = 0.8        // L on arrival, relative to the end of the HB
+
+// Where flash stars burn helium: the red clump at solar Z, bluer on the
+// HB of metal-poor stars (through the instability strip at Z ~ 0.001),
+// whatever the luminosity of the RGB tip they fell from
+const HB_END_LUMINOSITY = 60   // L☉ at the end of core He burning (ZAHB ~50 L☉)
+const RED_CLUMP_T = 4800       // K at solar Z
+const HB_T_PER_DEX_Z = -0.1    // dex in T_eff per dex in Z
+
+const TP_AGB_START = 0.5    // thermal pulses start half-way up the AGB
+const PULSE_DECAY = 0.12    // e-folding of a spike, in interpulse periods
+const PULSE_PEAK_DEX = 0.3  // luminosity surge of the last (strongest) pulse
+
+function hasHeliumFlash(M: number): boolean {
+  return M < HELIUM_FLASH_MAX_MASS
+}
+
+// heavier AGB stars go through more pulses (kept to a countable number)
+function thermalPulseCount(M: number): number {
+  return Math.round(clamp(4 + 3 * M, 4, 16))
+}
+
+// Luminosity multiplier at fraction f of the AGB: a sudden surge at each
+// pulse that dies away over the interpulse period, stronger every time
+function thermalPulseFactor(M: number, f: number): number {
+  if (f < TP_AGB_START) return 1
+  const n = thermalPulseCount(M)
+  const x = ((f - TP_AGB_START) / (1 - TP_AGB_START)) * n
+  const k = Math.min(Math.floor(x), n - 1)
+  const peak = PULSE_PEAK_DEX * (0.5 + (0.5 * k) / (n - 1))
+  return Math.pow(10, peak * Math.exp(-(x - k) / PULSE_DECAY))
+}
+
+// ---------- blue loops ----------
+// Intermediate-mass stars (~3–12 M☉) ignite helium as red giants, then
+// the envelope shrinks and the star loops out to the blue and back
+// before it climbs the AGB. The loop reaches hotter for heavier stars
+// and for metal-poor ones, and crosses the Cepheid instability strip on
+// the way out and on the way back.
+
+const BLUE_LOOP_KEYPOINTS = [
+  { frac: 0.15, dLogL: -0.02, tip: 0 }, // settled on the red side after ignition
+  { frac: 0.55, dLogL: 0.02, tip: 1 },  // bluest point of the loop
+  { frac: 0.85, dLogL: 0, tip: 0 },     // back at the red giant branch
+]
+
+function smoothstep(a: number, b: number, x: number): number {
+  const t = clamp((x - a) / (b - a), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
+// 0–1: how fully a star of mass M (M☉) develops a blue loop
+function blueLoopWeight(M: number): number {
+  return smoothstep(3, 4.5, M) * (1 - smoothstep(10, 12, M))
+}
+
+// how far the loop tip reaches beyond the red giant branch (dex in T_eff)
+function blueLoopExtentDex(M: number, Zrel: number): number {
+  return clamp((0.18 + 0.25 * Math.log10(M / 3)) * Math.pow(Zrel, -0.15), 0.1, 0.45)
+}
+
+// (L, T) moved from `plain` towards a target by `weight`, in log space
+function blendPoint(plain: StatePoint, L: number, T: number, weight: number): StatePoint {
+  const Lb = Math.pow(10, lerp(Math.log10(plain.L), Math.log10(L), weight))
+  const Tb = Math.pow(10, lerp(Math.log10(plain.T_eff), Math.log10(T), weight))
+  return { L: Lb, R: R_from_LT(Lb, Tb), T_eff: Tb }
+}
+
+// Keypoints of a blue loop at luminosity L laid over the plain segment
+// start → end, blended in by `weight` (0 = no loop)
+function blueLoopPath(
+  start: StatePoint,
+  end: StatePoint,
+  L: number,
+  T_red: number,
+  T_tip: number,
+  weight: number,
+): { frac: number; point: StatePoint }[] {
+  if (weight <= 0) return []
+  return BLUE_LOOP_KEYPOINTS.map(({ frac, dLogL, tip }) => ({
+    frac,
+    point: blendPoint(
+      lerpPoint(start, end, frac),
+      L * Math.pow(10, dLogL),
+      tip ? T_tip : T_red,
+      weight,
+    ),
+  }))
+}
+
+// ---------- massive stars ----------
+// LBV (S Doradus) cycles: the star swings between a hot quiescent state
+// and a cool, inflated outburst at roughly constant luminosity.
+
+const LBV_QUIESCENT_T = 25000
+const LBV_OUTBURST_T = 8500
+const LBV_CYCLE = [
+  { frac: 0.25, T: LBV_OUTBURST_T },
+  { frac: 0.5, T: LBV_QUIESCENT_T },
+  { frac: 0.75, T: LBV_OUTBURST_T * 1.1 },
+]
+
+function pointFromLT(L: number, T: number): StatePoint {
+  return { L, R: R_from_LT(L, T), T_eff: T }
+}
+
+// Brown dwarfs follow analytic cooling curves rather than keypoints
+function brownDwarfPoint(M: number, ageMyr: number): StatePoint {
+  const { L, R } = brownDwarfStateAtAge(M, ageMyr)
+  return { L, R, T_eff: T_from_LR(L, R) }
 }
 
 // ---------- KEYPOINT CONSTRUCTION ----------
 // For each big phase, we define a start and end state (L, R, T).
-// Within a phase we linearly interpolate between them.
+// Within a phase we linearly interpolate between them (via intermediate
+// keypoints where the path bends, see PhaseShape).
 // This guarantees continuity across phase boundaries.
 
 function buildPhaseShapes(
   params: StarParams,
   initial: InitialStarState,
   remnant: RemnantKind,
-): Record<ShapePhaseId, PhaseShape> {
-  const M = clamp(params.mass, 0.1, 50)
+  remnantMass: number,
+  // optional: wind mass-loss history from a first pass over the shapes,
+  // so the later phases can respond to the reduced envelope
+  massTrack?: MassLossTrack,
+): PhaseShapes {
+  const M = clampStellarMass(params.mass)
   const Z = clamp(params.metallicity, 0.0, 0.04)
   const fCNO = clamp(params.cnoFraction ?? 0, 0, 1)
 
@@ -116,7 +331,7 @@ function buildPhaseShapes(
   const logL_ms = initial.logL
 
   // Apply a small CNO luminosity boost everywhere
-  const cno = cnoBoost(fCNO)
+  const cno = cnoBoost(fCNO, initial.burning?.cnoFraction ?? 0)
   const L0_cno = L0 * cno
   const logL_ms_cno = logL_ms + Math.log10(cno)
 
@@ -135,7 +350,9 @@ function buildPhaseShapes(
     T_eff: T0 * Math.sqrt(cno),      // slightly hotter with CNO
   }
 
-  const L_msEnd = L0_cno * (1 + msBrightening)
+  // rotational mixing grows the core, so fast rotators end the MS brighter
+  const L_msEnd =
+    L0_cno * (1 + msBrightening) * rotationalLuminosityFactor(params.rotation, M)
   const R_msEnd = R0 * (1 + msRadiusGrowth)
   const T_msEnd = T_from_LR(L_msEnd, R_msEnd) * Math.pow(Zrel, -0.03)
 
@@ -145,6 +362,198 @@ function buildPhaseShapes(
     T_eff: T_msEnd,
   }
 
+  // --- Brown dwarfs: contraction, then cooling; no main sequence ---
+  if (initial.regime === "brownDwarf") {
+    const bdContracted = brownDwarfPoint(M, brownDwarfContractionMyr(M))
+
+    return {
+      pms: {
+        start: brownDwarfPoint(M, 0),
+        end: bdContracted,
+      },
+      wd: {
+        start: bdContracted,
+        end: brownDwarfPoint(M, BROWN_DWARF_SHOWN_MYR),
+      },
+    }
+  }
+
+  // --- 0) PRE-MAIN SEQUENCE (birthline → ZAMS) ---
+  // Protostars appear cool and over-luminous near the Hayashi track
+  // (~3500–4500 K) and contract onto the ZAMS point. Low-mass stars drop
+  // almost straight down; massive stars slide left at nearly constant L
+  // (Henyey track), so their luminosity excess is small.
+  const pmsLFactor = clamp(8 * Math.pow(M, -0.5), 1.05, 15) // ~8× for 1 Msun
+  const L_pmsStart = msStart.L * pmsLFactor
+  const T_hayashi = clamp(4000 + 600 * Math.log10(M), 3000, 4800)
+  const T_pmsStart =
+    Math.min(T_hayashi, msStart.T_eff * 0.95) * Math.pow(Zrel, -0.05)
+  const R_pmsStart = R_from_LT(L_pmsStart, T_pmsStart)
+
+  const pmsStart: StatePoint = {
+    L: L_pmsStart,
+    R: R_pmsStart,
+    T_eff: T_pmsStart,
+  }
+
+  // --- Very massive stars: MS → Wolf–Rayet → collapse / explosion ---
+  // Sitting at the Eddington limit, they never swell into red
+  // supergiants. The wind eats into the envelope already on the MS and
+  // the star turns into a hot WN/WC star; the more of the envelope is
+  // gone, the hotter (≳40 kK H-rich → ~100 kK bare core).
+  if (initial.regime === "veryMassive") {
+    let stripped = 0
+    if (massTrack) {
+      const Mc_he = coreMassAtPhaseEnd(M, "wr", remnant)
+      const envInit = Math.max(M - Mc_he, 1e-3)
+      const envLeft = Math.max(massAtPhaseEnd(massTrack, "ms") - Mc_he, 0)
+      stripped = clamp(1 - envLeft / envInit, 0, 1)
+    }
+
+    const L_wr = Math.min(L_msEnd * 1.2, Math.pow(10, 7.2))
+    const T_wr = Math.pow(
+      10,
+      lerp(Math.log10(Math.max(T_msEnd, 40000)), Math.log10(100000), stripped),
+    )
+    const wrEnd: StatePoint = {
+      L: L_wr,
+      R: R_from_LT(L_wr, T_wr),
+      T_eff: T_wr,
+    }
+
+    // final slot: the core contracts and heats up before it dies
+    const L_final = L_wr * 1.1
+    const T_final = T_wr * 1.2
+    const finalEnd: StatePoint = {
+      L: L_final,
+      R: R_from_LT(L_final, T_final),
+      T_eff: T_final,
+    }
+
+    return {
+      pms: {
+        start: pmsStart,
+        end: msStart,
+      },
+      ms: {
+        start: msStart,
+        end: msEnd,
+      },
+      wr: {
+        start: msEnd,
+        end: wrEnd,
+      },
+      wd: {
+        start: wrEnd,
+        end: finalEnd,
+      },
+    }
+  }
+
+  // --- Core-collapse progenitors: MS → supergiants → collapse ---
+  // They cross the Hertzsprung gap at nearly constant L as blue
+  // supergiants and burn helium as red supergiants (8–25 M☉, with a
+  // blue loop at the low end), red supergiants stripped into Wolf–Rayet
+  // stars (25–40 M☉), or LBVs that never turn red (≳40 M☉, the
+  // Humphreys–Davidson limit) before becoming Wolf–Rayet stars.
+  if (remnant !== "wd") {
+    const route = massiveRoute(M)
+
+    const L_bsg = L_msEnd * 1.2
+    const L_rsg = Math.min(L_msEnd * 3, Math.pow(10, 6.2))
+    let T_rsg = clamp(3600 + 200 * Math.log10(M), 3400, 4300) * Math.pow(Zrel, -0.05)
+
+    // Envelope response: a red supergiant whose wind has stripped most
+    // of its hydrogen envelope explodes as a yellow / blue supergiant.
+    if (route === "redSupergiant" && massTrack) {
+      const Mc_he = coreMassAtPhaseEnd(M, "rsg", remnant)
+      const envInit = Math.max(M - Mc_he, 1e-3)
+      const envLeft = Math.max(massAtPhaseEnd(massTrack, "rsg") - Mc_he, 0)
+      const w = clamp(1 - envLeft / envInit / 0.3, 0, 1)
+      T_rsg = Math.pow(10, lerp(Math.log10(T_rsg), Math.log10(20000), w))
+    }
+
+    // LBVs stay hot: the gap crossing stalls at the S Doradus
+    // quiescent temperature instead of reaching the red
+    const bsgEnd =
+      route === "luminousBlueVariable"
+        ? pointFromLT(L_bsg, Math.min(LBV_QUIESCENT_T, T_msEnd))
+        : pointFromLT(L_bsg, T_rsg * 1.1)
+    const rsgEnd = pointFromLT(L_rsg, T_rsg)
+
+    // the lightest supergiants still loop to the blue during He burning
+    const loopWeight = blueLoopWeight(M)
+    const T_loopTip = Math.min(T_rsg * Math.pow(10, blueLoopExtentDex(M, Zrel)), 25000)
+    const rsgPath = blueLoopPath(
+      bsgEnd,
+      rsgEnd,
+      Math.sqrt(L_bsg * L_rsg),
+      T_rsg,
+      T_loopTip,
+      loopWeight,
+    )
+
+    const lbvEnd = pointFromLT(L_bsg, LBV_QUIESCENT_T * 1.2)
+    const lbvPath = LBV_CYCLE.map(({ frac, T }) => ({
+      frac,
+      point: pointFromLT(L_bsg, T),
+    }))
+
+    const L_wr = clamp(L_rsg, 1e5, Math.pow(10, 6.2))
+    const T_wr = clamp(50000 * Math.pow(M / 25, 0.15), 40000, 90000)
+    const wrEnd = pointFromLT(L_wr, T_wr)
+
+    // final slot: a red supergiant waits for collapse where it is; a
+    // Wolf–Rayet core contracts and heats up a little more
+    const heliumEnd = route === "redSupergiant" ? rsgEnd : wrEnd
+    const finalEnd =
+      route === "redSupergiant"
+        ? pointFromLT(rsgEnd.L * 1.05, rsgEnd.T_eff)
+        : pointFromLT(wrEnd.L * 1.1, wrEnd.T_eff * 1.2)
+
+    return {
+      pms: {
+        start: pmsStart,
+        end: msStart,
+      },
+      ms: {
+        start: msStart,
+        end: msEnd,
+      },
+      bsg: {
+        start: msEnd,
+        end: bsgEnd,
+      },
+      ...(route === "luminousBlueVariable"
+        ? {
+            lbv: {
+              start: bsgEnd,
+              end: lbvEnd,
+              path: lbvPath,
+            },
+          }
+        : {
+            rsg: {
+              start: bsgEnd,
+              end: rsgEnd,
+              path: rsgPath,
+            },
+          }),
+      ...(route === "redSupergiant"
+        ? {}
+        : {
+            wr: {
+              start: route === "luminousBlueVariable" ? lbvEnd : rsgEnd,
+              end: wrEnd,
+            },
+          }),
+      wd: {
+        start: heliumEnd,
+        end: finalEnd,
+      },
+    }
+  }
+
   // --- 2) SUBGIANT ---
   // Envelope expands, luminosity rises a bit, temperature drops.
   const sgLFactor = 1.5 + 1.0 * Math.pow(M, 0.3) // few × brighter
@@ -186,9 +595,59 @@ function buildPhaseShapes(
 
   // --- 4) CORE HELIUM BURNING (HB / clump / blue loop) ---
   // Luminosity drops from RGB tip, star contracts a lot, T rises.
-  const L_hb = L_rgbTip * clamp(0.25 + 0.15 * Math.pow(M, -0.3), 0.2, 0.5)
-  const R_hb = R_rgbTip * clamp(0.15 + 0.1 * Math.pow(M, -0.2), 0.08, 0.25)
-  const T_hb = T_from_LR(L_hb, R_hb) * Math.pow(Zrel, -0.04)
+  let L_hb = L_rgbTip * clamp(0.25 + 0.15 * Math.pow(M, -0.3), 0.2, 0.5)
+  let R_hb = R_rgbTip * clamp(0.15 + 0.1 * Math.pow(M, -0.2), 0.08, 0.25)
+  let T_hb = T_from_LR(L_hb, R_hb) * Math.pow(Zrel, -0.04)
+
+  // Degenerate-core stars all ignite helium with nearly the same core
+  // mass, so they land on the clump / HB; blended out towards 2.5 M☉,
+  // where the cores are no longer degenerate.
+  const clumpWeight = 1 - smoothstep(1.8, 2.5, M)
+  if (clumpWeight > 0) {
+    const logZrel = clamp(Math.log10(Math.max(Z, 1e-6) / Zsun), -2.5, 0.2)
+    const T_clump = RED_CLUMP_T * Math.pow(10, HB_T_PER_DEX_Z * logZrel)
+    const clump = blendPoint(
+      { L: L_hb, R: R_hb, T_eff: T_hb },
+      HB_END_LUMINOSITY,
+      T_clump,
+      clumpWeight,
+    )
+    L_hb = clump.L
+    R_hb = clump.R
+    T_hb = clump.T_eff
+  }
+
+  // Envelope response: a star that lost most of its envelope on the RGB
+  // settles on the blue (or extreme) horizontal branch instead of the clump.
+  let hbStripped = 0
+  if (massTrack) {
+    const Mc_he = coreMassAtPhaseEnd(M, "rgb", remnant)
+    const envHb = Math.max(massAtPhaseEnd(massTrack, "rgb") - Mc_he, 0)
+    hbStripped = Math.pow(clamp(1 - envHb / 0.25, 0, 1), 2)
+    if (hbStripped > 0) {
+      const T_stripped = Math.pow(
+        10,
+        lerp(Math.log10(T_hb), Math.log10(Math.max(T_hb, 25000)), hbStripped),
+      )
+      // at fixed L, R ∝ T^-2
+      R_hb *= Math.pow(T_hb / T_stripped, 2)
+      T_hb = T_stripped
+    }
+  }
+
+  // Blue loop (~3–12 M☉, not for stripped stars): red → blue → red, so
+  // core He burning ends back on the red side, where the AGB begins.
+  // Blended in by mass, so the loop grows out of the plain segment.
+  const loopWeight = blueLoopWeight(M) * (1 - hbStripped)
+  const hbLoopEnd: StatePoint = { L: L_hb, R: R_hb, T_eff: T_hb }
+  const T_red = T_rgbTip * 1.05
+  const T_loopTip = Math.min(T_red * Math.pow(10, blueLoopExtentDex(M, Zrel)), 25000)
+  const hbLoopPath = blueLoopPath(rgbEnd, hbLoopEnd, L_hb, T_red, T_loopTip, loopWeight)
+  if (loopWeight > 0) {
+    const end = blendPoint(hbLoopEnd, L_hb, T_red, loopWeight)
+    R_hb = end.R
+    T_hb = end.T_eff
+  }
 
   const hbEnd: StatePoint = {
     L: L_hb,
@@ -196,6 +655,22 @@ function buildPhaseShapes(
     T_eff: T_hb,
   }
 
+  // Helium flash (and the clump stars just above it): the fall from the
+  // tip takes a sliver of the phase, then the star drifts slowly up
+  // from the zero-age HB
+  const hbPath = clumpWeight > 0
+    ? [
+        {
+          frac: HELIUM_FLASH_FRACTION,
+          point: {
+            L: L_hb * ZAHB_LUMINOSITY,
+            R: R_hb * Math.sqrt(ZAHB_LUMINOSITY),
+            T_eff: T_hb,
+          },
+        },
+      ]
+    : hbLoopPath
+
   // --- 5) AGB ---
   // Radius and luminosity grow again beyond RGB (thermal pulses etc.).
   const logL_agbRaw =
@@ -203,12 +678,24 @@ function buildPhaseShapes(
   const logL_agb = clamp(
     logL_agbRaw,
     logL_rgbTip + 0.05,
-    6.2, // keep even the brightest AGB / RSG stars below ~1.6×10^6 Lsun
+    6.2, // keep even the brightest AGB stars below ~1.6×10^6 Lsun
   )
-  const L_agb = Math.pow(10, logL_agb)
-  const R_agb = R_rgbTip * clamp(1.3 + 0.4 * Math.pow(M, 0.2), 1.2, 2.2)
+  let L_agb = Math.pow(10, logL_agb)
+  let R_agb = R_rgbTip * clamp(1.3 + 0.4 * Math.pow(M, 0.2), 1.2, 2.2)
   const T_agbNominal = T_rgbNominal * 0.9
-  const T_agb = T_agbNominal * Math.pow(Zrel, -0.05)
+  let T_agb = T_agbNominal * Math.pow(Zrel, -0.05)
+
+  // Envelope response: with only a thin envelope left after the HB the
+  // star barely climbs the AGB (AGB-manqué), so pull the AGB tip back
+  // towards the end of core He burning.
+  if (massTrack) {
+    const Mc_co = coreMassAtPhaseEnd(M, "agb", remnant)
+    const envAgb = Math.max(massAtPhaseEnd(massTrack, "hb") - Mc_co, 0)
+    const g = clamp(envAgb / 0.1, 0.15, 1)
+    L_agb = L_hb * Math.pow(L_agb / L_hb, g)
+    R_agb = R_hb * Math.pow(R_agb / R_hb, g)
+    T_agb = T_hb * Math.pow(T_agb / T_hb, g)
+  }
 
   const agbEnd: StatePoint = {
     L: L_agb,
@@ -216,112 +703,13 @@ function buildPhaseShapes(
     T_eff: T_agb,
   }
 
-  // --- 6) FINAL STAGE HANDLING WITH REALISTIC REMNANTS ---
-  // For low- and intermediate-mass stars we peel off to a white-dwarf
-  // cooling track. For core-collapse progenitors (NS / BH) we end as
-  // luminous supergiants or hot WR-like stars instead of faint WDs.
-
-  const isCoreCollapse = remnant !== "wd"
-
-  if (isCoreCollapse) {
-    // Base "pre-SN" luminosity: at least as bright as AGB tip,
-    // and never below logL ~ 4.5
-    const logL_agb_val = Math.log10(L_agb)
-    const logL_core = Math.max(logL_agb_val, 4.5)
-    const L_core = Math.pow(10, logL_core)
-
-    if (remnant === "ns") {
-      // Red-supergiant–like endpoint: cool, very luminous.
-      const T_rsg = clamp(3600 + 200 * Math.log10(M), 3400, 4300)
-      const R_rsg = R_from_LT(L_core, T_rsg)
-
-      const rsgEnd: StatePoint = {
-        L: L_core,
-        R: R_rsg,
-        T_eff: T_rsg,
-      }
-
-      return {
-        ms: {
-          start: msStart,
-          end: msEnd,
-        },
-        subgiant: {
-          start: msEnd,
-          end: sgEnd,
-        },
-        rgb: {
-          start: sgEnd,
-          end: rgbEnd,
-        },
-        hb: {
-          start: rgbEnd,
-          end: hbEnd,
-        },
-        agb: {
-          start: hbEnd,
-          end: agbEnd,
-        },
-        // For neutron-star progenitors, keep the final "wd" phase
-        // parked as a bright red supergiant / pre-SN core.
-        wd: {
-          start: agbEnd,
-          end: rsgEnd,
-        },
-      }
-    } else {
-      // Black-hole progenitors: hotter WR / LBV-like endpoint.
-      const logL_core_val = Math.max(Math.log10(L_agb), 4.5)
-      const logL_wr = clamp(logL_core_val + 0.3, 5.2, 6.2)
-      const L_wr = Math.pow(10, logL_wr)
-      const T_wr = clamp(
-        50000 * Math.pow(M / 25, 0.15),
-        40000,
-        90000,
-      )
-      const R_wr = R_from_LT(L_wr, T_wr)
-
-      const wrEnd: StatePoint = {
-        L: L_wr,
-        R: R_wr,
-        T_eff: T_wr,
-      }
-
-      return {
-        ms: {
-          start: msStart,
-          end: msEnd,
-        },
-        subgiant: {
-          start: msEnd,
-          end: sgEnd,
-        },
-        rgb: {
-          start: sgEnd,
-          end: rgbEnd,
-        },
-        hb: {
-          start: rgbEnd,
-          end: hbEnd,
-        },
-        agb: {
-          start: hbEnd,
-          end: agbEnd,
-        },
-        // For BH progenitors, final point is hot and extremely luminous.
-        wd: {
-          start: agbEnd,
-          end: wrEnd,
-        },
-      }
-    }
-  }
-
-  // --- 6b) WHITE DWARF COOLING (low/intermediate-mass only) ---
-  const R_wd = 0.015 * Math.pow(M, -0.2) // very weak mass trend
+  // --- 6) WHITE DWARF COOLING ---
+  // Radius from the WD mass–radius relation: heavier WDs are smaller,
+  // and (for the same cooling age) hotter at the start of the track.
+  const R_wd = whiteDwarfRadius(remnantMass)
 
   const L_wdStart = L0_cno * clamp(0.08 * Math.pow(M, 0.7), 0.02, 0.3)
-  const T_wdStart = 25000 * Math.pow(M, 0.05)
+  const T_wdStart = 25000 * Math.pow(M, 0.05) * Math.pow(remnantMass / 0.6, 0.25)
 
   const L_wdEnd = L0_cno * clamp(2e-4 * Math.pow(M, 0.3), 5e-5, 5e-4)
   const T_wdEnd = 4500 * Math.pow(Zrel, -0.05)
@@ -338,7 +726,22 @@ function buildPhaseShapes(
     T_eff: T_wdEnd,
   }
 
+  // --- 5b) POST-AGB / PLANETARY NEBULA ---
+  // With the envelope gone the core shrinks at constant L and heats up,
+  // crossing the diagram to ~100 kK (hotter for heavier cores), then
+  // fades onto the top of the cooling track once shell burning stops.
+  const T_pnTurn = clamp(100000 * Math.sqrt(remnantMass / 0.6), 60000, 200000)
+  const pnTurn: StatePoint = {
+    L: L_agb,
+    R: R_from_LT(L_agb, T_pnTurn),
+    T_eff: T_pnTurn,
+  }
+
   return {
+    pms: {
+      start: pmsStart,
+      end: msStart,
+    },
     ms: {
       start: msStart,
       end: msEnd,
@@ -354,11 +757,18 @@ function buildPhaseShapes(
     hb: {
       start: rgbEnd,
       end: hbEnd,
+      path: hbPath,
     },
     agb: {
       start: hbEnd,
       end: agbEnd,
     },
+    postAgb: {
+      start: agbEnd,
+      end: wdStart,
+      path: [{ frac: 0.6, point: pnTurn }],
+      logSpace: true,
+    },
     wd: {
       start: wdStart,
       end: wdEnd,
@@ -369,15 +779,95 @@ function buildPhaseShapes(
 // Helper: map the timeline's EvolutionPhaseId into our internal
 // shape keys. All the remnant-specific finals collapse onto "wd".
 function shapeKeyForPhase(id: EvolutionPhaseId): ShapePhaseId {
-  if (id === "wdFinal" || id === "nsFinal" || id === "bhFinal") {
+  if (
+    id === "wdFinal" ||
+    id === "nsFinal" ||
+    id === "bhFinal" ||
+    id === "pisnFinal" ||
+    id === "bdFinal"
+  ) {
     return "wd"
   }
   // For all non-final phases, EvolutionPhaseId matches ShapePhaseId.
   return id as ShapePhaseId
 }
 
+// Shape for a timeline phase; phases a star never visits fall back to
+// its final slot.
+function shapeForPhase(shapes: PhaseShapes, id: EvolutionPhaseId): PhaseShape {
+  return shapes[shapeKeyForPhase(id)] ?? shapes.wd
+}
+
 // ---------- PUBLIC API ----------
 
+/**
+ * Integrate the stellar wind over the (un-responded) phase shapes.
+ * Called by computeEvolutionTimeline once the phases are laid out;
+ * the result is stored on the timeline as `massLoss`.
+ */
+export function computeMassTrack(
+  params: StarParams,
+  initial: InitialStarState,
+  timeline: Pick<EvolutionTimeline, "phases" | "remnant">,
+): MassLossTrack {
+  const M0 = clampStellarMass(params.mass)
+
+  // winds stop before the remnant forms, so the WD slot's radius is
+  // irrelevant here; use the core-mass estimate for it
+  const baseShapes = buildPhaseShapes(
+    params,
+    initial,
+    timeline.remnant,
+    computeRemnantMass(M0, "wd", M0),
+  )
+
+  return computeMassLossTrack(
+    M0,
+    clamp(params.metallicity, 0.0, 0.04),
+    timeline,
+    (id, f) => pointOnShape(shapeForPhase(baseShapes, id), f),
+  )
+}
+
+
+/**
+ * The helium flash and the AGB thermal pulses along a timeline, in time
+ * order (none for tabulated tracks, brown dwarfs, or stars too heavy to
+ * have them).
+ */
+export function getEvolutionEvents(
+  params: StarParams,
+  timeline: EvolutionTimeline,
+): EvolutionEvent[] {
+  if (timeline.track || timeline.regime === "brownDwarf") return []
+  const M = clampStellarMass(params.mass)
+  const events: EvolutionEvent[] = []
+
+  for (const ph of timeline.phases) {
+    if (ph.id === "hb" && hasHeliumFlash(M) && timeline.remnant === "wd") {
+      events.push({
+        kind: "heliumFlash",
+        tMyr: ph.tStartMyr,
+        phaseId: ph.id,
+        label: "Helium flash",
+      })
+    }
+    if (ph.id === "agb" && timeline.remnant === "wd") {
+      const n = thermalPulseCount(M)
+      for (let k = 0; k < n; k++) {
+        const f = TP_AGB_START + ((1 - TP_AGB_START) * k) / n
+        events.push({
+          kind: "thermalPulse",
+          tMyr: ph.tStartMyr + f * ph.durationMyr,
+          phaseId: ph.id,
+          label: `Thermal pulse ${k + 1} of ${n}`,
+        })
+      }
+    }
+  }
+  return events
+}
+
 /**
  * Given Build-screen parameters, a precomputed EvolutionTimeline, and
  * a physical time tMyr along that timeline, return a smooth, phase-aware
@@ -425,24 +915,119 @@ export function getStarStateAtTime(
       L: initial.L_ms,
       R: initial.R_ms,
       T_eff: initial.T_eff,
+      M: params.mass,
+      Mdot: 0,
       logL: initial.logL,
       logT: initial.logT,
+      composition: compositionAtPhase(params, initial, timeline, "ms", 0, params.mass),
+      structure: classifyStructure({
+        phaseId: "ms",
+        phaseFrac: 0,
+        M: params.mass,
+        T_eff: initial.T_eff,
+        coreMass: 0,
+      }),
     }
   }
 
   const phaseFrac = safePhaseFraction(active, tMyr)
 
-  // build (or rebuild) the phase keypoints for this star
-  const shapes = buildPhaseShapes(params, initial, remnant)
-  const key = shapeKeyForPhase(active.id)
-  const shape = shapes[key]
+  // Tabulated tracks (tabulatedEvolution.ts): L, T and M come straight
+  // from the table, R follows from Stefan–Boltzmann
+  if (timeline.track) {
+    const row = trackStateAtAge(timeline.track, tMyr)
+    let L = row.L
+    let T_eff = row.T_eff
+    let R = R_from_LT(L, T_eff)
+    let M = row.M
+    let Mdot = row.Mdot
+
+    // past the end of the table (the final phase tacked on by the
+    // timeline), slide from the last row to the analytic remnant state
+    const points = timeline.track.points
+    if (active.tStartMyr >= points[points.length - 1].ageMyr) {
+      const end = buildPhaseShapes(
+        params,
+        initial,
+        remnant,
+        timeline.remnantMass,
+        timeline.massLoss,
+      ).wd.end
+      L = lerp(L, end.L, phaseFrac)
+      R = lerp(R, end.R, phaseFrac)
+      T_eff = lerp(T_eff, end.T_eff, phaseFrac)
+      M = lerp(M, timeline.remnantMass, phaseFrac)
+      Mdot = 0
+    }
+
+    const composition = compositionAtPhase(params, initial, timeline, active.id, phaseFrac, M)
+
+    return {
+      tMyr,
+      fracTotal,
+      phaseId: active.id,
+      phaseLabel: active.label,
+      phaseFrac,
+      remnant,
+      L,
+      R,
+      T_eff,
+      M,
+      Mdot,
+      logL: Math.log10(Math.max(L, 1e-6)),
+      logT: Math.log10(Math.max(T_eff, 10)),
+      composition,
+      structure: classifyStructure({
+        phaseId: active.id,
+        phaseFrac,
+        M,
+        T_eff,
+        coreMass: composition.heCoreMass,
+      }),
+    }
+  }
 
-  const L = lerp(shape.start.L, shape.end.L, phaseFrac)
-  const R = lerp(shape.start.R, shape.end.R, phaseFrac)
-  const T_eff = lerp(shape.start.T_eff, shape.end.T_eff, phaseFrac)
+  // build (or rebuild) the phase keypoints for this star:
+  // the timeline already holds the wind history from a first pass,
+  // so this pass lets the later phases respond to the envelope that is left
+  const massTrack = timeline.massLoss
+  const shapes = buildPhaseShapes(
+    params,
+    initial,
+    remnant,
+    timeline.remnantMass,
+    massTrack,
+  )
+  let { L, R, T_eff } = pointOnShape(shapeForPhase(shapes, active.id), phaseFrac)
+
+  // thermal pulses on the AGB of future white dwarfs: the surge leaves
+  // T_eff alone, so the envelope swells with √L
+  if (active.id === "agb" && remnant === "wd") {
+    const surge = thermalPulseFactor(clampStellarMass(params.mass), phaseFrac)
+    L *= surge
+    R *= Math.sqrt(surge)
+  }
+
+  // Brown dwarfs fade by orders of magnitude; a straight lerp between
+  // keypoints would hide that, so read the cooling curve directly.
+  if (timeline.regime === "brownDwarf") {
+    const bd = brownDwarfPoint(clampStellarMass(params.mass), tMyr)
+    L = bd.L
+    R = bd.R
+    T_eff = bd.T_eff
+  }
+
+  const { M, Mdot } = massAtPhaseFraction(
+    massTrack,
+    active.id,
+    phaseFrac,
+    { L, R, T_eff },
+    clamp(params.metallicity, 0.0, 0.04),
+  )
 
   const logL = Math.log10(Math.max(L, 1e-6))
   const logT = Math.log10(Math.max(T_eff, 10))
+  const composition = compositionAtPhase(params, initial, timeline, active.id, phaseFrac, M)
 
   return {
     tMyr,
@@ -454,7 +1039,17 @@ export function getStarStateAtTime(
     L,
     R,
     T_eff,
+    M,
+    Mdot,
     logL,
     logT,
+    composition,
+    structure: classifyStructure({
+      phaseId: active.id,
+      phaseFrac,
+      M,
+      T_eff,
+      coreMass: composition.heCoreMass,
+    }),
   }
 }
@@ -1,15 +1,54 @@
 // src/engine/starEvolutionEngine.ts
 import type { StarParams, InitialStarState } from "./starEngine"
 import { computeInitialStar } from "./starEngine"
-
-export type RemnantKind = "wd" | "ns" | "bh"
+import type { MassLossTrack } from "./massLoss"
+import type { EvolutionTrack } from "./trackTables"
+import { computeMassTrack } from "./starEvolutionCurves"
+import {
+  computeRemnantMass,
+  decideFate,
+  remnantForFate,
+  whiteDwarfUpperMass,
+} from "./remnants"
+import {
+  remnantSpin,
+  rotationalLifetimeFactor,
+  type RemnantSpin,
+} from "./rotation"
+import {
+  BROWN_DWARF_SHOWN_MYR,
+  M_MAX,
+  M_MIN,
+  brownDwarfContractionMyr,
+  massiveRoute,
+  type MassRegime,
+} from "./massRegimes"
+
+export type RemnantKind = "wd" | "ns" | "bh" | "none" | "bd"
+
+// How the star dies (see decideFate in remnants.ts)
+export type FateKind =
+  | "wd"          // AGB superwind + planetary nebula → white dwarf
+  | "ecsn"        // electron-capture supernova → light neutron star
+  | "ccsn"        // iron core-collapse supernova → neutron star
+  | "fallbackBh"  // weak supernova, fallback → black hole
+  | "failedSn"    // no explosion, direct collapse → black hole
+  | "ppisn"       // pulsational pair instability → black hole
+  | "pisn"        // pair-instability supernova → no remnant
+  | "bd"          // never ignites hydrogen → cooling brown dwarf
 
 type BasePhaseId =
+  | "pms"       // pre-main-sequence contraction (Hayashi / Henyey)
   | "ms"        // main sequence
   | "subgiant"
   | "rgb"       // red-giant branch
   | "hb"        // core He-burning (horizontal branch / clump)
   | "agb"       // asymptotic giant branch
+  | "postAgb"   // post-AGB crossing inside the planetary nebula (WD progenitors)
+  | "bsg"       // blue supergiant: massive star crossing the Hertzsprung gap
+  | "rsg"       // red supergiant: core He burning of massive stars
+  | "lbv"       // luminous blue variable: eruptive mass loss above ~40 M☉
+  | "wr"        // Wolf–Rayet: bare He-burning core of a massive star
   | "wd"        // generic late cooling phase duration
 
 export type EvolutionPhaseId =
@@ -17,6 +56,8 @@ export type EvolutionPhaseId =
   | "wdFinal"   // white dwarf cooling track (actual remnant)
   | "nsFinal"   // neutron star cooling track
   | "bhFinal"   // black hole endpoint (no real track)
+  | "pisnFinal" // pair-instability supernova: nothing left behind
+  | "bdFinal"   // brown dwarf cooling (no nuclear burning at all)
 
 // Labels for the big evolutionary stages we’ll show
 export type EvolutionPhase = {
@@ -37,16 +78,25 @@ export type EvolutionTimeline = {
   totalLifetimeMyr: number
   phases: EvolutionPhase[]
   initial: InitialStarState   // main-sequence anchor from build engine
-  remnant: RemnantKind        // wd / ns / bh fate for this star
+  regime: MassRegime          // brown dwarf / normal star / very massive star
+  fate: FateKind              // how the star dies (mass + Z + CNO + winds)
+  remnant: RemnantKind        // wd / ns / bh / none left by that fate
+  remnantMass: number         // gravitational mass of the remnant in M☉
+  remnantSpin: RemnantSpin    // pulsar period / black-hole spin at birth
+  massLoss: MassLossTrack     // wind history M(t), phase by phase
+  // set when the star follows a tabulated track instead of the analytic
+  // phase shapes (see tabulatedEvolution.ts); its age zero is t = 0 here
+  track?: EvolutionTrack
 }
 
 // --- helpers ---
 
 function clampMass(M: number): number {
-  // Lifetime is allowed to vary from 0.1–50 Msun.
+  // Lifetime is allowed to vary over the full 0.01–300 Msun build range.
   // (Structure / phase fractions will treat everything below ~0.5 Msun
-  //  as “low-mass” in the interpolation; see computeEvolutionTimeline.)
-  return Math.min(Math.max(M, 0.1), 50)
+  //  as “low-mass” in the interpolation; see computeEvolutionTimeline.
+  //  Brown dwarfs get their own timeline, see brownDwarfTimeline.)
+  return Math.min(Math.max(M, M_MIN), M_MAX)
 }
 
 /**
@@ -59,7 +109,7 @@ function clampMass(M: number): number {
  *   - Mass (via M and L_ms from starEngine)
  *   - CNO effects (via L_ms)
  *   - Composition X
- * plus a mild metallicity tweak.
+ * plus a mild metallicity tweak and rotational mixing.
  */
 function mainSequenceLifetimeGyrFromInitial(
   initial: InitialStarState,
@@ -91,14 +141,36 @@ function mainSequenceLifetimeGyrFromInitial(
   // Keep lifetimes within a sane range for gameplay:
   //   - don’t let extreme dwarfs live > 200 Gyr
   //   - don’t let massive stars live < a few Myr
-  const tMinGyr = 0.003   // 3 Myr
+  //     (very massive stars creep down towards ~2 Myr)
+  const tMinGyr = 0.003 * Math.pow(Math.max(M / 50, 1), -0.2)   // 3 Myr
   const tMaxGyr = 200     // 200 Gyr
 
   tGyr = Math.min(Math.max(tGyr, tMinGyr), tMaxGyr)
 
+  // Rotational mixing feeds the core fresh hydrogen (applied after the
+  // clamp so the massive, floor-limited stars still feel it)
+  tGyr *= rotationalLifetimeFactor(params.rotation, M)
+
   return tGyr
 }
 
+/**
+ * Pre–main-sequence contraction time, in Myr.
+ *
+ * A protostar shines by slowly contracting, so the time it needs to reach
+ * the ZAMS is set by the Kelvin–Helmholtz timescale
+ *   t_KH = G M^2 / (R L) ∝ M^(2 − r − l)   for R ∝ M^r, L ∝ M^l.
+ * Taken along smooth power laws (the ZAMS anchor's L(M) steps between
+ * regimes), this is a broken power law in M: ∝ M^-1.15 for the fully
+ * convective low-mass stars, ∝ M^-2.5 above ~1 M☉. Normalised so the
+ * Sun takes ~45 Myr, a 0.5 Msun star then needs ~150 Myr, a 0.1 Msun
+ * dwarf ~1 Gyr and an O star a few thousand years.
+ */
+function preMainSequenceDurationMyr(M: number): number {
+  const tSunMyr = 45
+  return (2 * tSunMyr) / (Math.pow(M, 1.15) + Math.pow(M, 2.5))
+}
+
 /**
  * Main entry point:
  * given the Build–screen parameters, return phase durations & normalized
@@ -109,16 +181,21 @@ export function computeEvolutionTimeline(
 ): EvolutionTimeline {
   const M = clampMass(params.mass)
 
-  const remnant: RemnantKind =
-    M < 8 ? "wd" : M < 25 ? "ns" : "bh"
-
   // main-sequence anchor state (T_eff, R_ms, L_ms, etc.)
   const initial = computeInitialStar(params)
 
+  // Brown dwarfs never reach the main sequence at all
+  if (initial.regime === "brownDwarf") {
+    return brownDwarfTimeline(params, initial)
+  }
+
   // --- 1. Main–sequence lifetime in Myr ---
   const tMsGyr = mainSequenceLifetimeGyrFromInitial(initial, params)
   const tMsMyr = tMsGyr * 1_000
 
+  // --- 1b. Pre–main-sequence contraction onto the ZAMS ---
+  const tPmsMyr = preMainSequenceDurationMyr(M)
+
   // --- 2. Mass-dependent post–MS fractions (relative to t_MS) ---
   // For low-mass (~1 Msun):
   //   subgiant ~ 0.05 t_MS
@@ -133,7 +210,7 @@ export function computeEvolutionTimeline(
   // distinguish “low-mass” vs “high-mass” behavior. Below about
   // 0.5 Msun everything looks like a very long-lived low-mass star,
   // so we clamp the *structural* mass there, while still letting the
-  // lifetime itself use the full 0.1–50 Msun range via clampMass().
+  // lifetime itself use the full 0.01–300 Msun range via clampMass().
   const Mstruct = Math.min(Math.max(M, 0.5), 50)
 
   const logMinStruct = Math.log10(0.5)
@@ -167,55 +244,221 @@ export function computeEvolutionTimeline(
   const tHB  = fHB  * scale * tMsMyr
   const tAGB = fAGB * scale * tMsMyr
 
+  // Post-AGB / planetary nebula: the bare core crosses to ~100 kK in a
+  // few 10⁴ yr (faster for heavier cores), after which the shell has
+  // dispersed. Only WD progenitors have one, and its time comes out of
+  // the cooling phase (see layoutPhases), so the total lifetime doesn't
+  // change; the Simulation screen slows it down to be seen.
+  const tPostAgb = Math.min(Math.max(0.04 / M, 0.01), 0.05)
+
+  // Core-collapse progenitors don't become giants in the low-mass sense:
+  // they cross the gap as blue supergiants in ~1% of t_MS, then burn
+  // helium for ~10% of it as red supergiants, LBVs or Wolf–Rayet stars
+  // (the split depends on the route, see massiveRoute). Very massive
+  // stars skip straight to a Wolf–Rayet phase after core H exhaustion.
+  const Z = Math.min(Math.max(params.metallicity, 0.0), 0.04)
+  const isCoreCollapse = M >= whiteDwarfUpperMass(Z, params.cnoFraction)
+  const route = massiveRoute(M)
+
+  const tBSG = 0.01 * tMsMyr
+  const tRSG = (route === "redSupergiant" ? 0.09 : 0.06) * tMsMyr
+  const tLBV = 0.02 * tMsMyr
+  const tWR =
+    (initial.regime === "veryMassive"
+      ? 0.1
+      : route === "luminousBlueVariable"
+      ? 0.08
+      : 0.04) * tMsMyr
+
   // White-dwarf cooling track:
   // ridiculously long, but we cap it so progress bars stay sane.
   const rawWD = 10 * tMsMyr * Math.pow(M, -0.7)
   const tWD   = Math.min(rawWD, 5 * tMsMyr)  // cap at ~5× main-sequence lifetime
 
   const durations: Record<BasePhaseId, number> = {
+    pms: tPmsMyr,
     ms:  tMsMyr,
     subgiant: tSub,
     rgb: tRGB,
     hb:  tHB,
     agb: tAGB,
+    postAgb: tPostAgb,
+    bsg: tBSG,
+    rsg: tRSG,
+    lbv: tLBV,
+    wr:  tWR,
     wd:  tWD,
   }
 
-  const totalLifetimeMyr = Object.values(durations).reduce(
-    (sum, t) => sum + t,
-    0
+  // Base sequence of phases before the final remnant-specific tail
+  const orderedBase: { id: BasePhaseId; label: string }[] =
+    initial.regime === "veryMassive"
+      ? [
+          { id: "pms", label: "Pre-main sequence" },
+          { id: "ms",  label: "Main sequence" },
+          { id: "wr",  label: "Wolf–Rayet" },
+        ]
+      : isCoreCollapse
+      ? [
+          { id: "pms", label: "Pre-main sequence" },
+          { id: "ms",  label: "Main sequence" },
+          { id: "bsg", label: "Blue supergiant" },
+          ...(route === "luminousBlueVariable"
+            ? [{ id: "lbv" as const, label: "Luminous blue variable" }]
+            : [{ id: "rsg" as const, label: "Red supergiant" }]),
+          ...(route === "redSupergiant"
+            ? []
+            : [{ id: "wr" as const, label: "Wolf–Rayet" }]),
+        ]
+      : [
+          { id: "pms",      label: "Pre-main sequence" },
+          { id: "ms",       label: "Main sequence" },
+          { id: "subgiant", label: "Subgiant" },
+          { id: "rgb",      label: "Red giant branch" },
+          { id: "hb",       label: "Helium burning" },
+          { id: "agb",      label: "Asymptotic giant branch" },
+        ]
+
+  // only the phases this star actually goes through count
+  const totalLifetimeMyr =
+    orderedBase.reduce((sum, { id }) => sum + durations[id], 0) + durations.wd
+
+  // --- 3. Fate ---
+  // Below the WD limit the fate is fixed. Above it we first run the winds
+  // with a provisional core-collapse ending, then decide between NS, BH
+  // and pair instability from the mass that is actually left, and redo
+  // the winds if the ending changed.
+  const provisionalRemnant: RemnantKind = isCoreCollapse ? "ns" : "wd"
+
+  let phases = layoutPhases(
+    orderedBase,
+    durations,
+    provisionalRemnant,
+    totalLifetimeMyr,
   )
+  let massLoss = computeMassTrack(params, initial, {
+    phases,
+    remnant: provisionalRemnant,
+  })
 
-  // Base sequence of phases before the final remnant-specific tail
-  const orderedBase: { id: BasePhaseId; label: string }[] = [
-    { id: "ms",       label: "Main sequence" },
-    { id: "subgiant", label: "Subgiant" },
-    { id: "rgb",      label: "Red giant branch" },
-    { id: "hb",       label: "Helium burning" },
-    { id: "agb",      label: "Asymptotic giant branch" },
-  ]
+  const fate = decideFate(M, Z, params.cnoFraction, finalMass(massLoss, M))
+  const remnant = remnantForFate(fate)
 
-  // Pick a final phase id/label based on the remnant kind
-  let finalPhaseId: EvolutionPhaseId
-  let finalLabel: string
+  if (remnant !== provisionalRemnant) {
+    phases = layoutPhases(orderedBase, durations, remnant, totalLifetimeMyr)
+    massLoss = computeMassTrack(params, initial, { phases, remnant })
+  }
+
+  // --- 4. What is left to make the remnant ---
+  const M_final = finalMass(massLoss, M)
+  const remnantMass = computeRemnantMass(M, fate, M_final)
+
+  return {
+    totalLifetimeMyr,
+    phases,
+    initial,
+    regime: initial.regime,
+    fate,
+    remnant,
+    remnantMass,
+    remnantSpin: remnantSpin(params.rotation, remnant, M, M_final),
+    massLoss,
+  }
+}
+
+/**
+ * Timeline of a brown dwarf: contraction (plus deuterium burning for the
+ * heavier ones) followed by cooling for the rest of the shown window.
+ * No winds and no death — the object simply fades.
+ */
+function brownDwarfTimeline(
+  params: StarParams,
+  initial: InitialStarState,
+): EvolutionTimeline {
+  const M = clampMass(params.mass)
+
+  const tContractMyr = brownDwarfContractionMyr(M)
+  const totalLifetimeMyr = BROWN_DWARF_SHOWN_MYR
 
+  const durations: Partial<Record<BasePhaseId, number>> = {
+    pms: tContractMyr,
+    wd: totalLifetimeMyr - tContractMyr,
+  }
+
+  const phases = layoutPhases(
+    [{ id: "pms", label: "Contraction" }],
+    durations,
+    "bd",
+    totalLifetimeMyr,
+  )
+  const massLoss = computeMassTrack(params, initial, { phases, remnant: "bd" })
+
+  return {
+    totalLifetimeMyr,
+    phases,
+    initial,
+    regime: initial.regime,
+    fate: "bd",
+    remnant: "bd",
+    remnantMass: M,
+    remnantSpin: { kind: "none" },
+    massLoss,
+  }
+}
+
+// Mass left at the very end of the wind history
+function finalMass(massLoss: MassLossTrack, M0: number): number {
+  return massLoss.phases.length > 0
+    ? massLoss.phases[massLoss.phases.length - 1].mEnd
+    : M0
+}
+
+// Pick a final phase id/label based on the remnant kind
+function finalPhaseFor(remnant: RemnantKind): {
+  id: EvolutionPhaseId
+  label: string
+} {
   if (remnant === "wd") {
-    finalPhaseId = "wdFinal"
-    finalLabel = "White dwarf cooling"
+    return { id: "wdFinal", label: "White dwarf cooling" }
   } else if (remnant === "ns") {
-    finalPhaseId = "nsFinal"
-    finalLabel = "Neutron star cooling"
-  } else {
-    finalPhaseId = "bhFinal"
-    finalLabel = "Black hole remnant"
+    return { id: "nsFinal", label: "Neutron star cooling" }
+  } else if (remnant === "bh") {
+    return { id: "bhFinal", label: "Black hole remnant" }
+  } else if (remnant === "bd") {
+    return { id: "bdFinal", label: "Brown dwarf cooling" }
   }
+  return { id: "pisnFinal", label: "Pair-instability supernova" }
+}
+
+// Lay the phases end to end, closing with the remnant-specific final phase
+function layoutPhases(
+  orderedBase: { id: BasePhaseId; label: string }[],
+  durations: Partial<Record<BasePhaseId, number>>,
+  remnant: RemnantKind,
+  totalLifetimeMyr: number,
+): EvolutionPhase[] {
+  const final = finalPhaseFor(remnant)
 
   let cursor = 0
   const phases: EvolutionPhase[] = []
 
-  // push all non-terminal phases
-  for (const { id, label } of orderedBase) {
-    const dt = durations[id]
+  // stars that end as white dwarfs after an AGB eject a planetary nebula
+  // on the way to the cooling track
+  const postAgbDt =
+    remnant === "wd" && orderedBase.some(({ id }) => id === "agb")
+      ? durations.postAgb ?? 0
+      : 0
+
+  // push all non-terminal phases, then the final cooling / endpoint phase
+  const ordered: { id: EvolutionPhaseId; label: string; dt: number }[] = [
+    ...orderedBase.map(({ id, label }) => ({ id, label, dt: durations[id] ?? 0 })),
+    ...(postAgbDt > 0
+      ? [{ id: "postAgb" as const, label: "Planetary nebula", dt: postAgbDt }]
+      : []),
+    { id: final.id, label: final.label, dt: (durations.wd ?? 0) - postAgbDt },
+  ]
+
+  for (const { id, label, dt } of ordered) {
     const tStart = cursor
     const tEnd = cursor + dt
     cursor = tEnd
@@ -234,27 +477,5 @@ export function computeEvolutionTimeline(
     })
   }
 
-  // push the remnant-specific final cooling / endpoint phase
-  {
-    const dt = durations.wd
-    const tStart = cursor
-    const tEnd = cursor + dt
-    cursor = tEnd
-
-    const fracStart = tStart / totalLifetimeMyr
-    const fracEnd = tEnd / totalLifetimeMyr
-
-    phases.push({
-      id: finalPhaseId,
-      label: finalLabel,
-      tStartMyr: tStart,
-      tEndMyr: tEnd,
-      durationMyr: dt,
-      fracStart,
-      fracEnd,
-    })
-  }
-
-  return { totalLifetimeMyr, phases, initial, remnant }
+  return phases
 }
-
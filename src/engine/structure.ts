@@ -0,0 +1,225 @@
+// src/engine/structure.ts
+// Where energy is carried by convection and where by radiation.
+//
+//   - below ~0.35 M☉ (and on the Hayashi track, and for brown dwarfs)
+//     the whole star convects
+//   - Sun-like stars: radiative core, convective envelope that gets
+//     thinner with mass (the Sun's starts at 0.71 R☉, ~2% of its mass)
+//   - above ~1.2 M☉ the CNO cycle's steep T dependence makes the core
+//     convective, and the envelope turns radiative
+//   - cool giants and supergiants: deep convective envelopes down to
+//     just above the core; hot evolved stars (blue loop, WR) radiative
+//   - white dwarfs and neutron stars: degenerate, neither
+//
+// Envelopes follow the T_eff rule of thumb (convective below ~6500 K)
+// off the main sequence; on it, the mass table below.
+
+import type { EvolutionPhaseId } from "./starEvolutionEngine"
+import { polytropeModel, radiusAtMassFraction } from "./polytrope"
+
+export type StructureKind =
+  | "fullyConvective"
+  | "convectiveEnvelope"   // radiative core, convective envelope
+  | "convectiveCore"       // convective core, radiative envelope
+  | "convectiveBoth"       // ~1.1–1.4 M☉: small convective core and thin envelope
+  | "deepEnvelope"         // giants: convective envelope over a compact core
+  | "radiative"            // hot evolved stars: radiative envelope, no burning core
+  | "degenerate"
+  | "none"
+
+export type StellarStructure = {
+  kind: StructureKind
+  label: string
+  // fractions of the radius / mass (0 = no such zone)
+  convectiveCoreRadius: number
+  convectiveCoreMass: number
+  envelopeBaseRadius: number  // base of the convective envelope (1 = none)
+  envelopeMass: number        // mass fraction in the convective envelope
+}
+
+export const STRUCTURE_LABELS: Record<StructureKind, string> = {
+  fullyConvective: "Fully convective",
+  convectiveEnvelope: "Radiative core, convective envelope",
+  convectiveCore: "Convective core, radiative envelope",
+  convectiveBoth: "Convective core and thin convective envelope",
+  deepEnvelope: "Deep convective envelope",
+  radiative: "Radiative envelope",
+  degenerate: "Degenerate (no convection)",
+  none: "No stellar interior",
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+function interpolate(table: { M: number; v: number }[], M: number): number {
+  if (M <= table[0].M) return table[0].v
+  for (let i = 0; i < table.length - 1; i++) {
+    const a = table[i]
+    const b = table[i + 1]
+    if (M <= b.M) return lerp(a.v, b.v, (M - a.M) / (b.M - a.M))
+  }
+  return table[table.length - 1].v
+}
+
+// Main-sequence convective envelopes: base radius and mass fraction
+const MS_ENVELOPE_BASE: { M: number; v: number }[] = [
+  { M: 0.35, v: 0 },
+  { M: 0.5, v: 0.55 },
+  { M: 0.8, v: 0.66 },
+  { M: 1.0, v: 0.71 },
+  { M: 1.2, v: 0.85 },
+  { M: 1.4, v: 0.97 },
+  { M: 1.5, v: 1 },
+]
+
+const MS_ENVELOPE_MASS: { M: number; v: number }[] = [
+  { M: 0.35, v: 1 },
+  { M: 0.5, v: 0.2 },
+  { M: 0.8, v: 0.07 },
+  { M: 1.0, v: 0.02 },
+  { M: 1.2, v: 0.003 },
+  { M: 1.5, v: 0 },
+]
+
+// Main-sequence convective core mass fraction (ZAMS)
+const MS_CORE_MASS: { M: number; v: number }[] = [
+  { M: 1.1, v: 0 },
+  { M: 1.5, v: 0.08 },
+  { M: 3, v: 0.2 },
+  { M: 10, v: 0.35 },
+  { M: 30, v: 0.55 },
+  { M: 100, v: 0.8 },
+]
+
+// radius of a mass fraction in an n = 3 star (Eddington standard model)
+function radiusOfCoreMass(q: number): number {
+  if (q <= 0) return 0
+  return radiusAtMassFraction(polytropeModel(1, 1, 3, 0.6, 32), q)
+}
+
+function build(
+  kind: StructureKind,
+  convectiveCoreMass: number,
+  envelopeBaseRadius: number,
+  envelopeMass: number,
+): StellarStructure {
+  return {
+    kind,
+    label: STRUCTURE_LABELS[kind],
+    convectiveCoreRadius: radiusOfCoreMass(convectiveCoreMass),
+    convectiveCoreMass,
+    envelopeBaseRadius,
+    envelopeMass,
+  }
+}
+
+// ---------- public API ----------
+
+export type StructureInput = {
+  phaseId: EvolutionPhaseId
+  phaseFrac: number
+  M: number          // current mass, M☉
+  T_eff: number
+  coreMass: number   // H-free core, M☉ (composition.heCoreMass)
+}
+
+/**
+ * Convective / radiative layout of a star at a given point of its life.
+ */
+export function classifyStructure({
+  phaseId,
+  phaseFrac,
+  M,
+  T_eff,
+  coreMass,
+}: StructureInput): StellarStructure {
+  const f = clamp(phaseFrac, 0, 1)
+  const qCore = M > 0 ? clamp(coreMass / M, 0, 1) : 0
+
+  // remnant slots
+  if (phaseId === "bdFinal") return build("fullyConvective", 0, 0, 1)
+  if (phaseId === "wdFinal" || phaseId === "nsFinal") {
+    return build("degenerate", 0, 1, 0)
+  }
+  if (phaseId === "bhFinal" || phaseId === "pisnFinal") {
+    return build("none", 0, 1, 0)
+  }
+
+  // cool photospheres drive convection (giants, Hayashi track)
+  const coolness = clamp((6500 - T_eff) / 1500, 0, 1)
+
+  switch (phaseId) {
+    case "pms": {
+      // Hayashi track (fully convective) until a radiative core appears
+      // on the Henyey track; low-mass stars (and brown dwarfs) never get one
+      const henyeyStart =
+        M < 0.35 ? 1 : lerp(0.9, 0.3, clamp((M - 0.5) / 2.5, 0, 1))
+      if (f < henyeyStart) return build("fullyConvective", 0, 0, 1)
+      const g = (f - henyeyStart) / (1 - henyeyStart)
+      return build(
+        "convectiveEnvelope",
+        0,
+        lerp(0.2, interpolate(MS_ENVELOPE_BASE, M), g),
+        lerp(0.8, interpolate(MS_ENVELOPE_MASS, M), g),
+      )
+    }
+
+    case "ms": {
+      if (M < 0.35) return build("fullyConvective", 0, 0, 1)
+      // convective cores shrink as hydrogen runs out (massive stars)
+      const core = interpolate(MS_CORE_MASS, M) * (1 - 0.4 * f)
+      const base = interpolate(MS_ENVELOPE_BASE, M)
+      const env = interpolate(MS_ENVELOPE_MASS, M)
+      if (core > 0 && base < 1) return build("convectiveBoth", core, base, env)
+      if (core > 0) return build("convectiveCore", core, 1, 0)
+      return build("convectiveEnvelope", 0, base, env)
+    }
+
+    case "wr":
+      // bare helium-burning core: convective centre, radiative rest
+      return build("convectiveCore", 0.5, 1, 0)
+
+    default: {
+      // subgiant / giant branches / core He burning
+      const burningCore =
+        phaseId === "hb" || phaseId === "rsg" || phaseId === "lbv"
+          ? Math.min(0.5 * qCore, 0.3)
+          : 0
+      const giantBase = clamp(0.05 + 0.2 * qCore, 0.05, 0.3)
+      const giantMass = Math.max(1 - qCore - 0.02, 0)
+
+      // Sun-like subgiants deepen the envelope they already had
+      const msBase = interpolate(MS_ENVELOPE_BASE, M)
+      if (phaseId === "subgiant" && msBase < 1) {
+        return build(
+          "deepEnvelope",
+          0,
+          lerp(msBase, giantBase, f),
+          lerp(interpolate(MS_ENVELOPE_MASS, M), giantMass, f),
+        )
+      }
+
+      // otherwise the envelope convects once the photosphere is cool;
+      // hot evolved stars (massive subgiants crossing the Hertzsprung
+      // gap, blue-loop and blue HB stars) stay radiative
+      if (coolness <= 0.02) {
+        return burningCore > 0
+          ? build("convectiveCore", burningCore, 1, 0)
+          : build("radiative", 0, 1, 0)
+      }
+      return build(
+        "deepEnvelope",
+        burningCore,
+        lerp(0.95, giantBase, coolness),
+        lerp(0.01, giantMass, coolness),
+      )
+    }
+  }
+}
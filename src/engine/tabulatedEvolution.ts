@@ -0,0 +1,146 @@
+// src/engine/tabulatedEvolution.ts
+// Switch between the analytic "classroom" model and tabulated tracks.
+//
+// A tabulated timeline has the same shape as the analytic one, so the
+// Simulation UI doesn't care which model produced it: the phases come
+// from the track's own phase boundaries, getStarStateAtTime reads L, T
+// and M off the track, and the fate / remnant are still decided by the
+// analytic engine (most published tracks stop at carbon ignition or at
+// the start of white-dwarf cooling).
+
+import type { StarParams } from "./starEngine"
+import {
+  computeEvolutionTimeline,
+  type EvolutionPhase,
+  type EvolutionPhaseId,
+  type EvolutionTimeline,
+} from "./starEvolutionEngine"
+import {
+  buildTrackGrid,
+  interpolateTrack,
+  parseTrackFile,
+  trackPhaseSpans,
+  type EvolutionTrack,
+  type TrackGrid,
+  type TrackPhase,
+} from "./trackTables"
+
+export type EvolutionModel =
+  | { kind: "analytic" }
+  | { kind: "tabulated"; grid: TrackGrid }
+
+export const ANALYTIC_MODEL: EvolutionModel = { kind: "analytic" }
+
+const PHASE_LABELS: Record<Exclude<TrackPhase, "wd">, string> = {
+  pms: "Pre-main sequence",
+  ms: "Main sequence",
+  subgiant: "Subgiant",
+  rgb: "Red giant branch",
+  hb: "Helium burning",
+  agb: "Asymptotic giant branch",
+  wr: "Wolf–Rayet",
+}
+
+/**
+ * Timeline that follows a tabulated track, or null when the star is
+ * outside the grid's mass range (or is a brown dwarf, which no stellar
+ * grid covers) — callers then fall back to the analytic model.
+ */
+export function computeTabulatedTimeline(
+  params: StarParams,
+  grid: TrackGrid,
+): EvolutionTimeline | null {
+  const analytic = computeEvolutionTimeline(params)
+  if (analytic.regime === "brownDwarf") return null
+
+  const track = interpolateTrack(grid, params.mass, params.metallicity)
+  if (!track || track.points.length < 2) return null
+
+  // the remnant-specific final phase comes from the analytic fate
+  const analyticFinal = analytic.phases[analytic.phases.length - 1]
+  const final: { id: EvolutionPhaseId; label: string } = {
+    id: analyticFinal.id,
+    label: analyticFinal.label,
+  }
+
+  // shift the track so it starts at t = 0
+  const t0 = track.points[0].ageMyr
+  const zeroed: EvolutionTrack = {
+    ...track,
+    points: track.points.map((p) => ({ ...p, ageMyr: p.ageMyr - t0 })),
+  }
+
+  const spans = trackPhaseSpans(zeroed)
+  const ordered: { id: EvolutionPhaseId; label: string; t0: number; t1: number }[] =
+    spans.map(({ phase, tStartMyr, tEndMyr }) =>
+      phase === "wd"
+        ? { ...final, t0: tStartMyr, t1: tEndMyr }
+        : { id: phase, label: PHASE_LABELS[phase], t0: tStartMyr, t1: tEndMyr },
+    )
+
+  // tracks that stop before the remnant get the analytic final phase
+  // tacked on (the star holds its last tabulated state meanwhile)
+  const last = ordered[ordered.length - 1]
+  if (last.id !== final.id) {
+    ordered.push({ ...final, t0: last.t1, t1: last.t1 + analyticFinal.durationMyr })
+  }
+
+  const totalLifetimeMyr = ordered[ordered.length - 1].t1
+
+  const phases: EvolutionPhase[] = ordered.map(({ id, label, t0, t1 }) => ({
+    id,
+    label,
+    tStartMyr: t0,
+    tEndMyr: t1,
+    durationMyr: t1 - t0,
+    fracStart: t0 / totalLifetimeMyr,
+    fracEnd: t1 / totalLifetimeMyr,
+  }))
+
+  return {
+    ...analytic,
+    totalLifetimeMyr,
+    phases,
+    track: zeroed,
+  }
+}
+
+/**
+ * Timeline under the chosen model; tabulated models fall back to the
+ * analytic one outside their grid.
+ */
+export function computeModelTimeline(
+  params: StarParams,
+  model: EvolutionModel,
+): EvolutionTimeline {
+  if (model.kind === "tabulated") {
+    const tabulated = computeTabulatedTimeline(params, model.grid)
+    if (tabulated) return tabulated
+  }
+  return computeEvolutionTimeline(params)
+}
+
+// ---------- loading ----------
+
+/**
+ * Parse a set of track files (text + file name) into a grid. Files that
+ * don't parse are reported back rather than failing the whole set.
+ */
+export function loadTrackGrid(
+  name: string,
+  files: { name: string; text: string }[],
+): { grid: TrackGrid | null; errors: string[] } {
+  const tracks: EvolutionTrack[] = []
+  const errors: string[] = []
+
+  for (const file of files) {
+    const result = parseTrackFile(file.text, file.name)
+    if (result.ok) tracks.push(result.track)
+    else errors.push(result.error)
+  }
+
+  return {
+    grid: tracks.length > 0 ? buildTrackGrid(name, tracks) : null,
+    errors,
+  }
+}
@@ -0,0 +1,562 @@
+// src/engine/trackTables.ts
+// Tabulated evolutionary tracks (MIST / PARSEC-style), as an alternative
+// to the hand-tuned phase shapes in starEvolutionCurves.
+//
+//   - parse: MIST .eep files, PARSEC-style whitespace tables and plain
+//            CSV, as long as there is an age, mass, log L and log T_eff
+//            column plus either a phase column or MIST's one-row-per-EEP
+//            layout
+//   - grid:  tracks are grouped by metallicity and sorted by mass
+//   - interpolate: between masses and metallicities the way isochrone
+//            codes do it — equivalent points along each phase are matched
+//            up, and log age, log L, log T and M/M0 are blended
+//
+// Nothing in here knows about fates or remnants; tabulatedEvolution.ts
+// turns an interpolated track into an EvolutionTimeline.
+
+// The phases a track can cover; post-AGB / white-dwarf rows go into "wd"
+export type TrackPhase =
+  | "pms"
+  | "ms"
+  | "subgiant"
+  | "rgb"
+  | "hb"
+  | "agb"
+  | "wr"
+  | "wd"
+
+export type TrackPoint = {
+  ageMyr: number
+  mass: number   // current mass in M☉
+  logL: number
+  logT: number
+  phase: TrackPhase
+}
+
+export type EvolutionTrack = {
+  initialMass: number
+  metallicity: number  // Z
+  source: string       // file name or "interpolated"
+  points: TrackPoint[]
+}
+
+export type TrackGrid = {
+  name: string
+  tracks: EvolutionTrack[] // sorted by metallicity, then initial mass
+}
+
+export type TrackParseResult =
+  | { ok: true; track: EvolutionTrack }
+  | { ok: false; error: string }
+
+// What the curves module reads off a track at a given age
+export type TrackSample = {
+  L: number
+  T_eff: number
+  M: number
+  Mdot: number // M☉ / yr, positive = losing
+  phase: TrackPhase
+}
+
+// ---------- small helpers ----------
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+// equivalent points per phase when two tracks are blended
+const POINTS_PER_PHASE = 40
+
+// tracks closer than this in log Z count as the same metallicity
+const SAME_Z_DEX = 0.01
+
+const Z_FLOOR = 1e-5
+
+// ---------- parsing ----------
+
+// Accepted column names (lower-cased), most specific first
+const COLUMN_ALIASES = {
+  age: ["star_age", "age_yr", "age"],
+  ageMyr: ["age_myr", "star_age_myr"],
+  mass: ["star_mass", "mass", "m"],
+  logL: ["log_l", "logl", "log_lum"],
+  logT: ["log_teff", "logte", "log_te", "logt", "log_t"],
+  phase: ["phase"],
+} as const
+
+/**
+ * MIST phase codes (Choi et al. 2016):
+ *   -1 PMS, 0 MS, 2 RGB, 3 core He burning, 4 early AGB, 5 TP-AGB,
+ *    6 post-AGB / WD, 9 Wolf–Rayet
+ * Subgiants are part of code 2; splitSubgiants() carves them out.
+ */
+function phaseFromMistCode(code: number): TrackPhase | null {
+  switch (Math.round(code)) {
+    case -1:
+      return "pms"
+    case 0:
+      return "ms"
+    case 2:
+      return "rgb"
+    case 3:
+      return "hb"
+    case 4:
+    case 5:
+      return "agb"
+    case 6:
+      return "wd"
+    case 9:
+      return "wr"
+    default:
+      return null
+  }
+}
+
+/**
+ * Phase from the row's EEP number, for MIST .eep files without a phase
+ * column (one row per EEP; primary EEPs at ZAMS 202, TAMS 454,
+ * RGB tip 605, ZACHeB 631, TACHeB 707, post-AGB 1409).
+ */
+function phaseFromEep(eep: number): TrackPhase {
+  if (eep < 202) return "pms"
+  if (eep < 454) return "ms"
+  if (eep < 631) return "rgb"
+  if (eep < 707) return "hb"
+  if (eep < 1409) return "agb"
+  return "wd"
+}
+
+function phaseFromCell(cell: string): TrackPhase | null {
+  const s = cell.trim().toLowerCase()
+  const named: TrackPhase[] = ["pms", "ms", "subgiant", "rgb", "hb", "agb", "wr", "wd"]
+  if ((named as string[]).includes(s)) return s as TrackPhase
+  const code = Number(s)
+  return Number.isFinite(code) ? phaseFromMistCode(code) : null
+}
+
+function splitCells(line: string): string[] {
+  return line.includes(",")
+    ? line.split(",").map((c) => c.trim())
+    : line.trim().split(/\s+/)
+}
+
+function isNumericRow(cells: string[]): boolean {
+  return cells.length > 1 && cells.every((c) => c !== "" && Number.isFinite(Number(c)))
+}
+
+function findColumn(header: string[], names: readonly string[]): number {
+  for (const name of names) {
+    const i = header.indexOf(name)
+    if (i >= 0) return i
+  }
+  return -1
+}
+
+/**
+ * Value announced in a header block such as MIST's
+ *   #  Yinit   Zinit   [Fe/H] ...
+ *   #  0.27    0.0142  0.00   ...
+ * i.e. a row of names followed by a row of numbers.
+ */
+function headerValue(headerLines: string[][], names: string[]): number | null {
+  for (let i = 0; i + 1 < headerLines.length; i++) {
+    const keys = headerLines[i].map((k) => k.toLowerCase())
+    const col = findColumn(keys, names)
+    if (col < 0) continue
+    const v = Number(headerLines[i + 1][col])
+    if (Number.isFinite(v)) return v
+  }
+  return null
+}
+
+/**
+ * Split the RGB rows of a track into subgiant + RGB: the subgiant part
+ * is the crossing to the red at roughly constant L, and ends once the
+ * star has brightened by 0.3 dex or cooled to the foot of the giant
+ * branch.
+ */
+function splitSubgiants(points: TrackPoint[]): TrackPoint[] {
+  if (points.some((p) => p.phase === "subgiant")) return points
+
+  const rgb = points.filter((p) => p.phase === "rgb")
+  if (rgb.length < 2) return points
+
+  const logL0 = rgb[0].logL
+  const logTmin = Math.min(...rgb.map((p) => p.logT))
+
+  let onRgb = false
+  return points.map((p) => {
+    if (p.phase !== "rgb") return p
+    if (!onRgb && (p.logL >= logL0 + 0.3 || p.logT <= logTmin + 0.02)) {
+      onRgb = true
+    }
+    return onRgb ? p : { ...p, phase: "subgiant" }
+  })
+}
+
+/**
+ * Parse one track file. `fileName` is only used for messages and to
+ * guess the initial mass / metallicity when the header doesn't say
+ * (e.g. "00100M.track.eep" → 1.0 M☉, "Z0.014_M1.00.csv").
+ */
+export function parseTrackFile(text: string, fileName = "track"): TrackParseResult {
+  const rawLines = text.split(/\r?\n/).filter((l) => l.trim() !== "")
+
+  // header rows (comments or non-numeric lines) and data rows
+  const headerLines: string[][] = []
+  const dataRows: string[][] = []
+  let columns: string[] | null = null
+
+  for (const raw of rawLines) {
+    const isComment = raw.trimStart().startsWith("#")
+    const cells = splitCells(raw.replace(/^\s*#/, ""))
+
+    if (!isComment && isNumericRow(cells)) {
+      dataRows.push(cells)
+      continue
+    }
+    if (dataRows.length > 0) continue // trailing notes
+
+    headerLines.push(cells)
+    const lower = cells.map((c) => c.toLowerCase())
+    if (
+      findColumn(lower, COLUMN_ALIASES.age) >= 0 ||
+      findColumn(lower, COLUMN_ALIASES.ageMyr) >= 0
+    ) {
+      columns = lower
+    }
+  }
+
+  if (!columns) {
+    return { ok: false, error: `${fileName}: no header row with an age column` }
+  }
+  if (dataRows.length < 2) {
+    return { ok: false, error: `${fileName}: no data rows` }
+  }
+
+  const ageMyrCol = findColumn(columns, COLUMN_ALIASES.ageMyr)
+  const ageCol = ageMyrCol >= 0 ? ageMyrCol : findColumn(columns, COLUMN_ALIASES.age)
+  const massCol = findColumn(columns, COLUMN_ALIASES.mass)
+  const logLCol = findColumn(columns, COLUMN_ALIASES.logL)
+  const logTCol = findColumn(columns, COLUMN_ALIASES.logT)
+  const phaseCol = findColumn(columns, COLUMN_ALIASES.phase)
+
+  if (massCol < 0 || logLCol < 0 || logTCol < 0) {
+    return {
+      ok: false,
+      error: `${fileName}: need mass, log L and log Teff columns`,
+    }
+  }
+
+  // without a phase column, only MIST's one-row-per-EEP layout works
+  const isEepFile =
+    /\.eep$/i.test(fileName) ||
+    headerLines.some((cells) => cells[0]?.toLowerCase() === "eeps:")
+  if (phaseCol < 0 && !isEepFile) {
+    return {
+      ok: false,
+      error: `${fileName}: no phase column (and not a MIST .eep file)`,
+    }
+  }
+
+  const ageScale = ageMyrCol >= 0 ? 1 : 1e-6 // years → Myr
+
+  const points: TrackPoint[] = []
+  for (let i = 0; i < dataRows.length; i++) {
+    const row = dataRows[i]
+    const phase =
+      phaseCol >= 0 ? phaseFromCell(row[phaseCol] ?? "") : phaseFromEep(i + 1)
+    if (!phase) continue
+
+    const point: TrackPoint = {
+      ageMyr: Number(row[ageCol]) * ageScale,
+      mass: Number(row[massCol]),
+      logL: Number(row[logLCol]),
+      logT: Number(row[logTCol]),
+      phase,
+    }
+
+    // ages must increase; drop repeated / out-of-order rows
+    const prev = points[points.length - 1]
+    if (prev && point.ageMyr <= prev.ageMyr) continue
+    points.push(point)
+  }
+
+  if (points.length < 2) {
+    return { ok: false, error: `${fileName}: no usable rows` }
+  }
+
+  const massFromName = fileName.match(/(\d+)M\.track/i)
+  const initialMass =
+    headerValue(headerLines, ["initial_mass", "m_ini", "mini"]) ??
+    (massFromName ? Number(massFromName[1]) / 100 : null) ??
+    Number(fileName.match(/M(\d+(?:\.\d+)?)/)?.[1] ?? NaN)
+
+  const zFromName = fileName.match(/Z(\d*\.\d+)/i)
+  const metallicity =
+    headerValue(headerLines, ["zinit", "initial_z", "z_ini", "z"]) ??
+    (zFromName ? Number(zFromName[1]) : 0.02)
+
+  const M0 = Number.isFinite(initialMass) && initialMass > 0 ? initialMass : points[0].mass
+
+  return {
+    ok: true,
+    track: {
+      initialMass: M0,
+      metallicity,
+      source: fileName,
+      points: splitSubgiants(points),
+    },
+  }
+}
+
+// ---------- grid ----------
+
+export function buildTrackGrid(name: string, tracks: EvolutionTrack[]): TrackGrid {
+  const sorted = [...tracks].sort(
+    (a, b) => a.metallicity - b.metallicity || a.initialMass - b.initialMass,
+  )
+  return { name, tracks: sorted }
+}
+
+function logZ(Z: number): number {
+  return Math.log10(Math.max(Z, Z_FLOOR))
+}
+
+// Tracks grouped into metallicity sets, lowest Z first
+function metallicitySets(grid: TrackGrid): EvolutionTrack[][] {
+  const sets: EvolutionTrack[][] = []
+  for (const track of grid.tracks) {
+    const last = sets[sets.length - 1]
+    if (last && Math.abs(logZ(last[0].metallicity) - logZ(track.metallicity)) < SAME_Z_DEX) {
+      last.push(track)
+    } else {
+      sets.push([track])
+    }
+  }
+  return sets
+}
+
+/**
+ * Masses covered at every metallicity of the grid, and the metallicity
+ * range. Outside the mass range the analytic model has to take over.
+ */
+export function trackGridCoverage(grid: TrackGrid): {
+  mMin: number
+  mMax: number
+  zMin: number
+  zMax: number
+} {
+  const sets = metallicitySets(grid)
+  if (sets.length === 0) return { mMin: NaN, mMax: NaN, zMin: NaN, zMax: NaN }
+  return {
+    mMin: Math.max(...sets.map((s) => s[0].initialMass)),
+    mMax: Math.min(...sets.map((s) => s[s.length - 1].initialMass)),
+    zMin: sets[0][0].metallicity,
+    zMax: sets[sets.length - 1][0].metallicity,
+  }
+}
+
+// ---------- interpolation ----------
+
+// Phases of a track in order of appearance
+function phaseOrder(track: EvolutionTrack): TrackPhase[] {
+  const order: TrackPhase[] = []
+  for (const p of track.points) {
+    if (order[order.length - 1] !== p.phase) order.push(p.phase)
+  }
+  return order
+}
+
+/**
+ * Point at fraction f (0–1, by row position) along one phase of a track.
+ * The rows of a phase are treated as equivalent evolutionary points, so
+ * position-by-index matches like with like between tracks.
+ */
+function pointAlongPhase(track: EvolutionTrack, phase: TrackPhase, f: number): TrackPoint {
+  const rows = track.points.filter((p) => p.phase === phase)
+  if (rows.length === 1) return rows[0]
+
+  const u = clamp(f, 0, 1) * (rows.length - 1)
+  const i = Math.min(Math.floor(u), rows.length - 2)
+  const t = u - i
+  const a = rows[i]
+  const b = rows[i + 1]
+  return {
+    ageMyr: lerp(a.ageMyr, b.ageMyr, t),
+    mass: lerp(a.mass, b.mass, t),
+    logL: lerp(a.logL, b.logL, t),
+    logT: lerp(a.logT, b.logT, t),
+    phase,
+  }
+}
+
+/**
+ * Blend two tracks, weight w on `b`. Only phases both tracks share are
+ * kept (a 1 M☉ and a 40 M☉ track have little in common past the MS, which
+ * is why grids need to be reasonably dense).
+ */
+function blendTracks(
+  a: EvolutionTrack,
+  b: EvolutionTrack,
+  w: number,
+  M0: number,
+  Z: number,
+): EvolutionTrack {
+  if (w <= 0 && a.initialMass === M0) return a
+  if (w >= 1 && b.initialMass === M0) return b
+
+  const inB = new Set(phaseOrder(b))
+  const phases = phaseOrder(a).filter((ph) => inB.has(ph))
+
+  const points: TrackPoint[] = []
+  for (const phase of phases) {
+    for (let k = 0; k <= POINTS_PER_PHASE; k++) {
+      const f = k / POINTS_PER_PHASE
+      const pa = pointAlongPhase(a, phase, f)
+      const pb = pointAlongPhase(b, phase, f)
+
+      // ages span decades between masses: blend them in log
+      const logAge = lerp(
+        Math.log10(Math.max(pa.ageMyr, 1e-6)),
+        Math.log10(Math.max(pb.ageMyr, 1e-6)),
+        w,
+      )
+      const massFrac = lerp(pa.mass / a.initialMass, pb.mass / b.initialMass, w)
+
+      const point: TrackPoint = {
+        ageMyr: Math.pow(10, logAge),
+        mass: massFrac * M0,
+        logL: lerp(pa.logL, pb.logL, w),
+        logT: lerp(pa.logT, pb.logT, w),
+        phase,
+      }
+
+      const prev = points[points.length - 1]
+      if (prev && point.ageMyr <= prev.ageMyr) continue
+      points.push(point)
+    }
+  }
+
+  return { initialMass: M0, metallicity: Z, source: "interpolated", points }
+}
+
+// Track for mass M0 within one metallicity set (null outside its range)
+function trackAtMass(set: EvolutionTrack[], M0: number): EvolutionTrack | null {
+  if (M0 < set[0].initialMass || M0 > set[set.length - 1].initialMass) return null
+
+  for (let i = 0; i < set.length; i++) {
+    if (set[i].initialMass === M0) return set[i]
+  }
+
+  const j = set.findIndex((t) => t.initialMass > M0)
+  const lo = set[j - 1]
+  const hi = set[j]
+  const w =
+    (Math.log10(M0) - Math.log10(lo.initialMass)) /
+    (Math.log10(hi.initialMass) - Math.log10(lo.initialMass))
+  return blendTracks(lo, hi, w, M0, lo.metallicity)
+}
+
+/**
+ * Track for any (M0, Z) inside the grid: mass interpolation (in log M)
+ * at the two bracketing metallicities, then between those (in log Z).
+ * Metallicities outside the grid are clamped to its edge; masses outside
+ * it return null.
+ */
+export function interpolateTrack(
+  grid: TrackGrid,
+  M0: number,
+  Z: number,
+): EvolutionTrack | null {
+  const sets = metallicitySets(grid)
+  if (sets.length === 0) return null
+
+  const lz = clamp(logZ(Z), logZ(sets[0][0].metallicity), logZ(sets[sets.length - 1][0].metallicity))
+
+  let k = sets.findIndex((s) => logZ(s[0].metallicity) >= lz - SAME_Z_DEX / 2)
+  if (k < 0) k = sets.length - 1
+
+  const hi = trackAtMass(sets[k], M0)
+  if (!hi) return null
+  if (k === 0 || Math.abs(logZ(sets[k][0].metallicity) - lz) < SAME_Z_DEX) return hi
+
+  const lo = trackAtMass(sets[k - 1], M0)
+  if (!lo) return null
+
+  const zLo = logZ(sets[k - 1][0].metallicity)
+  const zHi = logZ(sets[k][0].metallicity)
+  const w = (lz - zLo) / (zHi - zLo)
+  return blendTracks(lo, hi, w, M0, Math.pow(10, lz))
+}
+
+// ---------- lookup ----------
+
+// Age span of each phase of a track, in Myr, in order
+export function trackPhaseSpans(
+  track: EvolutionTrack,
+): { phase: TrackPhase; tStartMyr: number; tEndMyr: number }[] {
+  const spans: { phase: TrackPhase; tStartMyr: number; tEndMyr: number }[] = []
+  const points = track.points
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i]
+    const last = spans[spans.length - 1]
+    if (last && last.phase === p.phase) {
+      last.tEndMyr = p.ageMyr
+    } else {
+      // a phase starts where the previous one ended, so there are no gaps
+      if (last) last.tEndMyr = p.ageMyr
+      spans.push({ phase: p.phase, tStartMyr: p.ageMyr, tEndMyr: p.ageMyr })
+    }
+  }
+
+  return spans
+}
+
+/**
+ * State on a track at a given age (Myr since the track's zero point),
+ * linear between rows; past either end the end row is held.
+ */
+export function trackStateAtAge(track: EvolutionTrack, ageMyr: number): TrackSample {
+  const points = track.points
+  const first = points[0]
+  const last = points[points.length - 1]
+
+  if (ageMyr <= first.ageMyr || ageMyr >= last.ageMyr) {
+    const p = ageMyr <= first.ageMyr ? first : last
+    return {
+      L: Math.pow(10, p.logL),
+      T_eff: Math.pow(10, p.logT),
+      M: p.mass,
+      Mdot: 0,
+      phase: p.phase,
+    }
+  }
+
+  // binary search for the bracketing rows
+  let lo = 0
+  let hi = points.length - 1
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (points[mid].ageMyr <= ageMyr) lo = mid
+    else hi = mid
+  }
+
+  const a = points[lo]
+  const b = points[hi]
+  const t = (ageMyr - a.ageMyr) / (b.ageMyr - a.ageMyr)
+  const dtYr = (b.ageMyr - a.ageMyr) * 1e6
+
+  return {
+    L: Math.pow(10, lerp(a.logL, b.logL, t)),
+    T_eff: Math.pow(10, lerp(a.logT, b.logT, t)),
+    M: lerp(a.mass, b.mass, t),
+    Mdot: dtYr > 0 ? Math.max((a.mass - b.mass) / dtYr, 0) : 0,
+    phase: a.phase,
+  }
+}
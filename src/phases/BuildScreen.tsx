@@ -1,14 +1,60 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { StarPreview } from '../components/StarPreview'
 import { HRDiagram } from '../components/HRDiagram'
 import { computeInitialStar } from '../engine/starEngine'
 import type { StarParams } from '../engine/starEngine'
+import { M_MAX, M_MIN, type MassRegime } from '../engine/massRegimes'
+import {
+  OMEGA_MAX,
+  equatorialVelocityKms,
+  oblateness,
+} from '../engine/rotation'
 import { SwipeToActivate } from '../components/SwipeToActivate'
-
+import { EnergyBreakdown } from '../components/EnergyBreakdown'
+import { DerivedQuantitiesPanel } from '../components/DerivedQuantitiesPanel'
+import { derivedQuantities, logSurfaceGravity } from '../engine/derivedQuantities'
+import {
+  IMF_LABELS,
+  clusterAtAge,
+  generateCluster,
+  type IMFKind,
+} from '../engine/cluster'
+import {
+  BINARY_OUTCOME_LABELS,
+  computeBinaryEvolution,
+  type BinaryParams,
+  type BinaryRole,
+} from '../engine/binaryEvolution'
+import type { EvolutionModel } from '../engine/tabulatedEvolution'
+import { classifyStar } from '../engine/spectralClass'
+import { colorBV, computeMagnitudes } from '../engine/photometry'
+import { trackGridCoverage, type TrackGrid } from '../engine/trackTables'
+import { formatAgeMyr } from './formatting'
+
+
+type StarVisuals = {
+  sizePx: number
+  color: string
+  glow: number
+  pulseSeconds: number
+}
 
 type BuildScreenProps = {
   params: StarParams
   onChangeParam: <K extends keyof StarParams>(key: K, value: number) => void
+  // binary mode (binary is undefined while it's off)
+  binary?: BinaryParams
+  onToggleBinary: () => void
+  onChangeCompanionParam: <K extends keyof StarParams>(key: K, value: number) => void
+  onChangeSeparation: (a: number) => void
+  companionVisuals: StarVisuals
+  // evolution model (analytic shapes or tabulated tracks)
+  trackGrid: TrackGrid | null
+  trackErrors: string[]
+  evolutionModel: EvolutionModel
+  onToggleTracks: () => void
+  onLoadTracks: (files: { name: string; text: string }[]) => void
+  onTrackError: (message: string) => void // a file could not be read
   sizePx: number
   color: string
   glow: number
@@ -18,22 +64,55 @@ type BuildScreenProps = {
 
 // --- LOG SCALE MASS HELPERS ---------------------------------
 
-// Convert slider (0..1) → real mass (0.1..50)
+// Convert slider (0..1) → real mass (0.01..300)
 function sliderToMass(x: number): number {
-  const logMin = Math.log10(0.1)
-  const logMax = Math.log10(50)
+  const logMin = Math.log10(M_MIN)
+  const logMax = Math.log10(M_MAX)
   const logVal = logMin + x * (logMax - logMin)
   return Math.pow(10, logVal)
 }
 
-// Convert mass (0.1..50) → slider position (0..1)
+// Convert mass (0.01..300) → slider position (0..1)
 function massToSlider(m: number): number {
-  const logMin = Math.log10(0.1)
-  const logMax = Math.log10(50)
+  const logMin = Math.log10(M_MIN)
+  const logMax = Math.log10(M_MAX)
   const logVal = Math.log10(m)
   return (logVal - logMin) / (logMax - logMin)
 }
 
+// brown dwarfs need a third decimal, monsters don't need any
+function formatMass(m: number): string {
+  if (m < 0.1) return m.toFixed(3)
+  if (m >= 100) return m.toFixed(0)
+  return m.toFixed(2)
+}
+
+// Cluster ages: log scale, 1 Myr..12.6 Gyr
+const LOG_AGE_MIN = 0
+const LOG_AGE_MAX = 4.1
+
+const REGIME_LABELS: Record<MassRegime, string> = {
+  brownDwarf: 'Brown dwarf (no H fusion)',
+  star: 'Star',
+  veryMassive: 'Very massive star',
+}
+
+// Orbital separation: log scale, 0.01..100 AU
+const A_MIN = 0.01
+const A_MAX = 100
+
+function sliderToSeparation(x: number): number {
+  const logMin = Math.log10(A_MIN)
+  const logMax = Math.log10(A_MAX)
+  return Math.pow(10, logMin + x * (logMax - logMin))
+}
+
+function separationToSlider(a: number): number {
+  const logMin = Math.log10(A_MIN)
+  const logMax = Math.log10(A_MAX)
+  return (Math.log10(a) - logMin) / (logMax - logMin)
+}
+
 // ======== GLOBAL CONFIG / COLOR GRADIENT =========
 
 const NUM_BARS = 25
@@ -103,6 +182,46 @@ function getCNOColors(pos: number) {
   return { active, inactive }
 }
 
+// spinning teal → violet for ROTATION
+function getRotationColors(pos: number) {
+  const x = Math.min(1, Math.max(0, pos))
+
+  // hue
+  const hue = 180 + 90 * x
+  // saturation
+  const sat = 55 + 20 * x
+  // lightness
+  const light = 80 - 35 * x
+
+  const active = `hsl(${hue}, ${sat}%, ${light}%)`
+  const inactive = `hsla(${hue}, ${Math.max(
+    30,
+    sat - 20,
+  )}%, ${Math.min(light + 10, 80)}%, 0.25)`
+
+  return { active, inactive }
+}
+
+// deep-space blues for SEPARATION (close = bright, wide = dark)
+function getSeparationColors(pos: number) {
+  const x = Math.min(1, Math.max(0, pos))
+
+  // hue
+  const hue = 195 + 30 * x
+  // saturation
+  const sat = 70 - 20 * x
+  // lightness
+  const light = 75 - 40 * x
+
+  const active = `hsl(${hue}, ${sat}%, ${light}%)`
+  const inactive = `hsla(${hue}, ${Math.max(
+    30,
+    sat - 20,
+  )}%, ${Math.min(light + 10, 80)}%, 0.25)`
+
+  return { active, inactive }
+}
+
 // ======== MASS STAIR CONTROL (smooth + curved) =========
 
 type MassStairControlProps = {
@@ -298,11 +417,145 @@ function CNOStairControl({ cno, onChangeCNO }: CNOStairControlProps) {
   )
 }
 
+// ======== ROTATION STAIR (linear, 0..Ω_max, teal/violet) =========
+
+type RotationStairControlProps = {
+  rotation: number
+  onChangeRotation: (w: number) => void
+}
+
+function RotationStairControl({
+  rotation,
+  onChangeRotation,
+}: RotationStairControlProps) {
+  // rotation is Ω / Ω_crit, capped just below break-up
+  const sliderValue = Math.min(1, Math.max(0, rotation / OMEGA_MAX))
+
+  function handlePointer(clientX: number, target: HTMLDivElement) {
+    const rect = target.getBoundingClientRect()
+    const raw = (clientX - rect.left) / rect.width
+    const t = Math.min(1, Math.max(0, raw))
+    onChangeRotation(t * OMEGA_MAX)
+  }
+
+  return (
+    <div
+      className="mass-stair"
+      onMouseDown={(e) =>
+        handlePointer(e.clientX, e.currentTarget as HTMLDivElement)
+      }
+      onMouseMove={(e) => {
+        if (e.buttons !== 1) return
+        handlePointer(e.clientX, e.currentTarget as HTMLDivElement)
+      }}
+    >
+      {Array.from({ length: NUM_BARS }).map((_, i) => {
+        const barCenter = (i + 0.5) / NUM_BARS
+        const linearPos = (i + 1) / NUM_BARS
+
+        // pure linear slope
+        const heightFrac = linearPos
+
+        const isActive = barCenter <= sliderValue
+
+        const baseHeight = 0.1 + 0.95 * heightFrac
+        const heightPercent = baseHeight * 100
+
+        // teal → violet palette for rotation
+        const { active, inactive } = getRotationColors(barCenter)
+
+        return (
+          <div
+            key={i}
+            className="mass-stair-bar"
+            style={{
+              height: `${heightPercent}%`,
+              background: isActive ? active : inactive,
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
+// ======== SEPARATION STAIR (log scale, binary mode only) =========
+
+type SeparationStairControlProps = {
+  separationAU: number
+  onChangeSeparation: (a: number) => void
+}
+
+function SeparationStairControl({
+  separationAU,
+  onChangeSeparation,
+}: SeparationStairControlProps) {
+  const sliderValue = Math.min(1, Math.max(0, separationToSlider(separationAU)))
+
+  function handlePointer(clientX: number, target: HTMLDivElement) {
+    const rect = target.getBoundingClientRect()
+    const raw = (clientX - rect.left) / rect.width
+    const t = Math.min(1, Math.max(0, raw))
+    onChangeSeparation(sliderToSeparation(t))
+  }
+
+  return (
+    <div
+      className="mass-stair"
+      onMouseDown={(e) =>
+        handlePointer(e.clientX, e.currentTarget as HTMLDivElement)
+      }
+      onMouseMove={(e) => {
+        if (e.buttons !== 1) return
+        handlePointer(e.clientX, e.currentTarget as HTMLDivElement)
+      }}
+    >
+      {Array.from({ length: NUM_BARS }).map((_, i) => {
+        const barCenter = (i + 0.5) / NUM_BARS
+        const linearPos = (i + 1) / NUM_BARS
+
+        // pure linear slope
+        const heightFrac = linearPos
+
+        const isActive = barCenter <= sliderValue
+
+        const baseHeight = 0.1 + 0.95 * heightFrac
+        const heightPercent = baseHeight * 100
+
+        // deep-space blues for the orbit
+        const { active, inactive } = getSeparationColors(barCenter)
+
+        return (
+          <div
+            key={i}
+            className="mass-stair-bar"
+            style={{
+              height: `${heightPercent}%`,
+              background: isActive ? active : inactive,
+            }}
+          />
+        )
+      })}
+    </div>
+  )
+}
+
 // =============================================
 
 export function BuildScreen({
   params,
   onChangeParam,
+  binary,
+  onToggleBinary,
+  onChangeCompanionParam,
+  onChangeSeparation,
+  companionVisuals,
+  trackGrid,
+  trackErrors,
+  evolutionModel,
+  onToggleTracks,
+  onLoadTracks,
+  onTrackError,
   sizePx,
   color,
   glow,
@@ -330,7 +583,80 @@ export function BuildScreen({
     }
   }, [])
 
-  const initial = computeInitialStar(params)
+  // in binary mode the sliders edit either star
+  const [editing, setEditing] = useState<BinaryRole>('primary')
+  const editingCompanion = binary !== undefined && editing === 'secondary'
+  const edited = editingCompanion ? binary.secondary : params
+  const onChangeEdited = editingCompanion ? onChangeCompanionParam : onChangeParam
+
+  const initial = computeInitialStar(edited)
+  const primaryInitial = computeInitialStar(params)
+  const companionInitial = binary ? computeInitialStar(binary.secondary) : undefined
+  const primaryLogg = logSurfaceGravity(params.mass, primaryInitial.R_ms)
+  const companionLogg =
+    binary && companionInitial
+      ? logSurfaceGravity(binary.secondary.mass, companionInitial.R_ms)
+      : undefined
+
+  // tabulated tracks only cover the masses the grid was computed for;
+  // a metallicity off the grid is clamped to its nearest edge (the 0.1%
+  // slack keeps slider round-off from tripping the warning)
+  const trackCoverage = trackGrid ? trackGridCoverage(trackGrid) : null
+  const outsideTracks =
+    trackCoverage !== null &&
+    (params.mass < trackCoverage.mMin || params.mass > trackCoverage.mMax)
+  const outsideTrackZ =
+    trackCoverage !== null &&
+    (params.metallicity < trackCoverage.zMin * 0.999 ||
+      params.metallicity > trackCoverage.zMax * 1.001)
+
+  function handleTrackFiles(fileList: FileList | null) {
+    if (!fileList || fileList.length === 0) return
+    const files = Array.from(fileList)
+    Promise.all(files.map((f) => f.text()))
+      .then((texts) =>
+        onLoadTracks(files.map((f, i) => ({ name: f.name, text: texts[i] }))),
+      )
+      .catch((err: unknown) =>
+        onTrackError(
+          `Could not read track files: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      )
+  }
+
+  // star cluster drawn from an IMF at the primary's metallicity; the
+  // timelines are computed once per draw, the age slider only samples them
+  const [clusterOn, setClusterOn] = useState(false)
+  const [clusterIMF, setClusterIMF] = useState<IMFKind>('kroupa')
+  const [clusterN, setClusterN] = useState(300)
+  const [clusterSeed, setClusterSeed] = useState(1)
+  const [clusterLogAge, setClusterLogAge] = useState(3)
+  const cluster = useMemo(
+    () =>
+      clusterOn
+        ? generateCluster({
+            N: clusterN,
+            imf: clusterIMF,
+            metallicity: params.metallicity,
+            cnoFraction: params.cnoFraction,
+            mMin: 0.1,
+            mMax: 60,
+            seed: clusterSeed,
+          })
+        : null,
+    [clusterOn, clusterN, clusterIMF, params.metallicity, params.cnoFraction, clusterSeed],
+  )
+  const clusterAgeMyr = Math.pow(10, clusterLogAge)
+  const clusterSnapshot = useMemo(
+    () => (cluster ? clusterAtAge(cluster, clusterAgeMyr) : null),
+    [cluster, clusterAgeMyr],
+  )
+
+  // what the pair will do to each other (first Roche-lobe contact)
+  const binaryPreview = useMemo(
+    () => (binary ? computeBinaryEvolution(binary) : null),
+    [binary],
+  )
 
   return (
     <section className="panel">
@@ -342,8 +668,186 @@ export function BuildScreen({
             color={color}
             glow={glow}
             pulseSeconds={pulseSeconds}
+            oblateness={oblateness(params.rotation)}
           />
           <SwipeToActivate onComplete={onLaunchSimulation} />
+
+          {/* Evolution model: analytic shapes or tabulated tracks */}
+          <div className="build-card-model">
+            <label className="track-upload">
+              Load tracks (MIST .eep / CSV)
+              <input
+                type="file"
+                multiple
+                accept=".eep,.csv,.dat,.txt"
+                onChange={(e) => handleTrackFiles(e.target.files)}
+              />
+            </label>
+
+            {trackGrid && trackCoverage && (
+              <>
+                <button
+                  className={
+                    evolutionModel.kind === 'tabulated'
+                      ? 'binary-toggle active'
+                      : 'binary-toggle'
+                  }
+                  onClick={onToggleTracks}
+                >
+                  Model:{' '}
+                  {evolutionModel.kind === 'tabulated'
+                    ? 'tabulated tracks'
+                    : 'classroom (analytic)'}
+                </button>
+                <p className="binary-outcome">
+                  {trackGrid.name}: {trackGrid.tracks.length} tracks,{' '}
+                  {formatMass(trackCoverage.mMin)}–{formatMass(trackCoverage.mMax)} M☉,
+                  Z {trackCoverage.zMin.toPrecision(2)}–{trackCoverage.zMax.toPrecision(2)}
+                  {evolutionModel.kind === 'tabulated' &&
+                    outsideTracks &&
+                    ' — this mass is outside the grid, the classroom model takes over'}
+                  {evolutionModel.kind === 'tabulated' &&
+                    !outsideTracks &&
+                    outsideTrackZ &&
+                    ' — this Z is outside the grid, the tracks at its nearest edge are used'}
+                  {binary &&
+                    evolutionModel.kind === 'tabulated' &&
+                    ' — binaries always use the classroom model'}
+                </p>
+              </>
+            )}
+
+            {trackErrors.map((err) => (
+              <p key={err} className="binary-outcome track-error">
+                {err}
+              </p>
+            ))}
+          </div>
+
+          {/* Binary system: companion + orbit */}
+          <div className="build-card-binary">
+            <button
+              className={binary ? 'binary-toggle active' : 'binary-toggle'}
+              onClick={onToggleBinary}
+            >
+              Binary system: {binary ? 'on' : 'off'}
+            </button>
+
+            {binary && (
+              <>
+                <div className="binary-editing">
+                  <button
+                    className={editing === 'primary' ? 'active' : ''}
+                    onClick={() => setEditing('primary')}
+                  >
+                    Edit primary
+                  </button>
+                  <button
+                    className={editing === 'secondary' ? 'active' : ''}
+                    onClick={() => setEditing('secondary')}
+                  >
+                    Edit companion
+                  </button>
+                </div>
+
+                <div className="control-group">
+                  <label>Separation: {binary.separationAU.toFixed(2)} AU</label>
+                  <SeparationStairControl
+                    separationAU={binary.separationAU}
+                    onChangeSeparation={withZoomTracking(onChangeSeparation)}
+                  />
+                </div>
+
+                <div className="companion-preview">
+                  <StarPreview
+                    sizePx={companionVisuals.sizePx}
+                    color={companionVisuals.color}
+                    glow={companionVisuals.glow}
+                    pulseSeconds={companionVisuals.pulseSeconds}
+                    oblateness={oblateness(binary.secondary.rotation)}
+                  />
+                </div>
+
+                {binaryPreview && (
+                  <p className="binary-outcome">
+                    {BINARY_OUTCOME_LABELS[binaryPreview.outcome]}
+                    {binaryPreview.event &&
+                      ` — Roche-lobe overflow of the ${
+                        binaryPreview.event.donor === 'primary' ? 'primary' : 'companion'
+                      } at ${binaryPreview.event.tMyr.toPrecision(3)} Myr (Case ${
+                        binaryPreview.event.transferCase
+                      })`}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Star cluster: a whole IMF population at one age */}
+          <div className="build-card-cluster">
+            <button
+              className={clusterOn ? 'binary-toggle active' : 'binary-toggle'}
+              onClick={() => setClusterOn((on) => !on)}
+            >
+              Star cluster: {clusterOn ? 'on' : 'off'}
+            </button>
+
+            {clusterSnapshot && (
+              <>
+                <div className="binary-editing">
+                  {(Object.keys(IMF_LABELS) as IMFKind[]).map((imf) => (
+                    <button
+                      key={imf}
+                      className={clusterIMF === imf ? 'active' : ''}
+                      onClick={() => setClusterIMF(imf)}
+                    >
+                      {IMF_LABELS[imf]} IMF
+                    </button>
+                  ))}
+                  <button onClick={() => setClusterSeed((seed) => seed + 1)}>
+                    Draw again
+                  </button>
+                </div>
+
+                <div className="control-group">
+                  <label>Stars: {clusterN}</label>
+                  <input
+                    type="range"
+                    min={50}
+                    max={600}
+                    step={50}
+                    value={clusterN}
+                    onChange={(e) => setClusterN(Number(e.target.value))}
+                  />
+                </div>
+
+                <div className="control-group">
+                  <label>Age: {formatAgeMyr(clusterAgeMyr)}</label>
+                  <input
+                    type="range"
+                    min={LOG_AGE_MIN}
+                    max={LOG_AGE_MAX}
+                    step={0.01}
+                    value={clusterLogAge}
+                    onChange={(e) => setClusterLogAge(Number(e.target.value))}
+                  />
+                </div>
+
+                <p className="binary-outcome">
+                  Turnoff ≈ {formatMass(clusterSnapshot.turnoffMass)} M☉ ·{' '}
+                  {clusterSnapshot.counts.preMainSequence > 0 &&
+                    `${clusterSnapshot.counts.preMainSequence} pre-main sequence · `}
+                  {clusterSnapshot.counts.mainSequence} main sequence ·{' '}
+                  {clusterSnapshot.counts.evolved} giants ·{' '}
+                  {clusterSnapshot.counts.whiteDwarfs} white dwarfs
+                  {clusterSnapshot.counts.brownDwarfs > 0 &&
+                    ` · ${clusterSnapshot.counts.brownDwarfs} brown dwarfs`}
+                  {clusterSnapshot.counts.dark > 0 &&
+                    ` · ${clusterSnapshot.counts.dark} neutron stars / black holes`}
+                </p>
+              </>
+            )}
+          </div>
         </div>
 
         {/* RIGHT: sliders, summary, HR diagram stacked */}
@@ -354,10 +858,10 @@ export function BuildScreen({
             {/* MASS — LOG SCALE + stair control */}
             <div className="slider-card slider-card-mass">
               <div className="control-group">
-                <label>Mass (M☉): {params.mass.toFixed(2)}</label>
+                <label>Mass (M☉): {formatMass(edited.mass)}</label>
                 <MassStairControl
-                  mass={params.mass}
-                  onChangeMass={withZoomTracking((m) => onChangeParam('mass', m))}
+                  mass={edited.mass}
+                  onChangeMass={withZoomTracking((m) => onChangeEdited('mass', m))}
                 />
               </div>
             </div>
@@ -365,10 +869,10 @@ export function BuildScreen({
             {/* METALLICITY — linear stair */}
             <div className="slider-card slider-card-metallicity">
               <div className="control-group">
-                <label>Metallicity Z: {params.metallicity.toFixed(3)}</label>
+                <label>Metallicity Z: {edited.metallicity.toFixed(3)}</label>
                 <MetallicityStairControl
-                  metallicity={params.metallicity}
-                  onChangeZ={withZoomTracking((z) => onChangeParam('metallicity', z))}
+                  metallicity={edited.metallicity}
+                  onChangeZ={withZoomTracking((z) => onChangeEdited('metallicity', z))}
                 />
               </div>
             </div>
@@ -377,11 +881,29 @@ export function BuildScreen({
             <div className="slider-card slider-card-cno">
               <div className="control-group">
                 <label>
-                  CNO Fraction: {params.cnoFraction.toFixed(2)}
+                  CNO Fraction: {edited.cnoFraction.toFixed(2)}
                 </label>
                 <CNOStairControl
-                  cno={params.cnoFraction}
-                  onChangeCNO={withZoomTracking((c) => onChangeParam('cnoFraction', c))}
+                  cno={edited.cnoFraction}
+                  onChangeCNO={withZoomTracking((c) => onChangeEdited('cnoFraction', c))}
+                />
+              </div>
+            </div>
+
+            {/* ENERGY SOURCE — what the CNO slider does to the core */}
+            <div className="slider-card slider-card-energy">
+              <EnergyBreakdown burning={initial.burning} />
+            </div>
+
+            {/* ROTATION — linear stair */}
+            <div className="slider-card slider-card-rotation">
+              <div className="control-group">
+                <label>
+                  Rotation Ω/Ω<sub>crit</sub>: {edited.rotation.toFixed(2)}
+                </label>
+                <RotationStairControl
+                  rotation={edited.rotation}
+                  onChangeRotation={withZoomTracking((w) => onChangeEdited('rotation', w))}
                 />
               </div>
             </div>
@@ -394,14 +916,50 @@ export function BuildScreen({
             <div className="star-summary-card">
               <ul className="summary-list">
                 <h3 className="summary-title">Manufacturing Report</h3>
-                <li>Mass: {params.mass.toFixed(2)} M☉</li>
-                <li>Metallicity Z: {params.metallicity.toFixed(3)}</li>
-                <li>CNO fraction: {params.cnoFraction.toFixed(2)}</li>
+                <li>Mass: {formatMass(edited.mass)} M☉</li>
+                <li>Type: {REGIME_LABELS[initial.regime]}</li>
+                <li>
+                  Spectral class:{' '}
+                  {
+                    classifyStar({
+                      T_eff: initial.T_eff,
+                      logL: initial.logL,
+                      logg: logSurfaceGravity(edited.mass, initial.R_ms),
+                    }).label
+                  }
+                </li>
+                <li>
+                  M<sub>V</sub>: {computeMagnitudes(initial.T_eff, initial.logL).V.toFixed(2)}
+                  {' '}(B − V = {colorBV(initial.T_eff).toFixed(2)})
+                </li>
+                <li>Metallicity Z: {edited.metallicity.toFixed(3)}</li>
+                <li>CNO fraction: {edited.cnoFraction.toFixed(2)}</li>
+                <li>
+                  Rotation: {edited.rotation.toFixed(2)} Ω<sub>crit</sub> (v
+                  <sub>eq</sub> ≈{' '}
+                  {equatorialVelocityKms(
+                    edited.rotation,
+                    edited.mass,
+                    initial.R_ms,
+                  ).toFixed(0)}{' '}
+                  km/s)
+                </li>
                 <li>X (H): {initial.X.toFixed(3)}</li>
                 <li>Y (He): {initial.Y.toFixed(3)}</li>
                 <li>log₁₀(T / K): {initial.logT.toFixed(3)}</li>
                 <li>log₁₀(L / L☉): {initial.logL.toFixed(3)}</li>
+                {initial.regime === 'veryMassive' && (
+                  <li>Eddington factor Γ: {initial.eddingtonRatio.toFixed(2)}</li>
+                )}
               </ul>
+              <DerivedQuantitiesPanel
+                quantities={derivedQuantities({
+                  M: edited.mass,
+                  R: initial.R_ms,
+                  L: initial.L_ms,
+                  fuel: initial.regime === 'brownDwarf' ? null : 'H',
+                })}
+              />
             </div>
           </div>
 
@@ -409,10 +967,35 @@ export function BuildScreen({
           <div className="build-card build-card-hr">
             <HRDiagram
               current={{
-                logT: initial.logT,
-                logL: initial.logL,
+                logT: primaryInitial.logT,
+                logL: primaryInitial.logL,
+                logg: primaryLogg,
               }}
+              companion={
+                companionInitial &&
+                binary && {
+                  logT: companionInitial.logT,
+                  logL: companionInitial.logL,
+                  logg: companionLogg,
+                }
+              }
+              spectralLabel={
+                classifyStar({
+                  T_eff: primaryInitial.T_eff,
+                  logL: primaryInitial.logL,
+                  logg: primaryLogg,
+                }).label
+              }
+              companionSpectralLabel={
+                companionInitial &&
+                classifyStar({
+                  T_eff: companionInitial.T_eff,
+                  logL: companionInitial.logL,
+                  logg: companionLogg,
+                }).label
+              }
               disableStarZoom={disableStarZoom}
+              population={clusterSnapshot?.stars}
             />
           </div>
         </div>
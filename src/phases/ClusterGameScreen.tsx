@@ -0,0 +1,137 @@
+// src/phases/ClusterGameScreen.tsx
+import { useMemo, useRef, useState } from "react"
+import { HRDiagram } from "../components/HRDiagram"
+import { clusterAtAge, generateCluster } from "../engine/cluster"
+import { computeIsochrone } from "../engine/isochrone"
+import {
+  CLUSTER_AGE_MAX_MYR,
+  CLUSTER_AGE_MIN_MYR,
+  CLUSTER_METALLICITIES,
+  pickClusterSecret,
+  scoreClusterGuess,
+  type ClusterDatingResult,
+} from "../engine/clusterDating"
+import { formatAgeMyr } from "./formatting"
+
+type ClusterGameScreenProps = {
+  onSubmit: (result: ClusterDatingResult) => void
+}
+
+const CNO_FRACTION = 0.3 // roughly solar mix for every cluster
+const CLUSTER_SIZE = 400
+
+// the player's age range, a little wider than the hidden ages
+const LOG_AGE_MIN = Math.log10(CLUSTER_AGE_MIN_MYR) - 0.3
+const LOG_AGE_MAX = Math.log10(CLUSTER_AGE_MAX_MYR) + 0.1
+
+// drag sensitivity: dex of age per pixel (down = older)
+const DRAG_DEX_PER_PX = 0.004
+
+export function ClusterGameScreen({ onSubmit }: ClusterGameScreenProps) {
+  // the hidden truth and the population it produces
+  const [secret] = useState(() => pickClusterSecret())
+  const population = useMemo(() => {
+    const cluster = generateCluster({
+      N: CLUSTER_SIZE,
+      imf: "kroupa",
+      metallicity: secret.metallicity,
+      cnoFraction: CNO_FRACTION,
+      mMin: 0.1,
+      mMax: 20,
+      seed: secret.seed,
+    })
+    return clusterAtAge(cluster, secret.ageMyr).stars
+  }, [secret])
+
+  // the player's isochrone
+  const [guessLogAge, setGuessLogAge] = useState(3)
+  const [guessZ, setGuessZ] = useState(0.02)
+  const guessAgeMyr = Math.pow(10, guessLogAge)
+  const isochrone = useMemo(
+    () =>
+      computeIsochrone({
+        ageMyr: guessAgeMyr,
+        metallicity: guessZ,
+        cnoFraction: CNO_FRACTION,
+      }).points,
+    [guessAgeMyr, guessZ],
+  )
+
+  // drag the curve up / down: a brighter turnoff is a younger cluster
+  const dragStart = useRef<{ y: number; logAge: number } | null>(null)
+  function handleDrag(clientY: number) {
+    if (!dragStart.current) return
+    const next =
+      dragStart.current.logAge + (clientY - dragStart.current.y) * DRAG_DEX_PER_PX
+    setGuessLogAge(Math.min(Math.max(next, LOG_AGE_MIN), LOG_AGE_MAX))
+  }
+
+  return (
+    <section className="panel panel-cluster-game">
+      <h2>Date the cluster</h2>
+      <p>
+        {CLUSTER_SIZE} stars born together, seen today. Drag the isochrone up
+        or down until it runs through the turnoff — where the main sequence
+        bends off towards the giants — and pick the metallicity that fits
+        best.
+      </p>
+
+      <div
+        className="cluster-game-plot"
+        onMouseDown={(e) => {
+          dragStart.current = { y: e.clientY, logAge: guessLogAge }
+        }}
+        onMouseMove={(e) => {
+          if (e.buttons !== 1) return
+          handleDrag(e.clientY)
+        }}
+        onMouseUp={() => {
+          dragStart.current = null
+        }}
+      >
+        <HRDiagram
+          population={population}
+          isochrone={isochrone}
+          disableStarZoom={true}
+        />
+      </div>
+
+      <div className="cluster-game-controls">
+        <div className="control-group">
+          <label>Isochrone age: {formatAgeMyr(guessAgeMyr)}</label>
+          <input
+            type="range"
+            min={LOG_AGE_MIN}
+            max={LOG_AGE_MAX}
+            step={0.01}
+            value={guessLogAge}
+            onChange={(e) => setGuessLogAge(Number(e.target.value))}
+          />
+        </div>
+
+        <div className="binary-editing">
+          {CLUSTER_METALLICITIES.map((Z) => (
+            <button
+              key={Z}
+              className={guessZ === Z ? "active" : ""}
+              onClick={() => setGuessZ(Z)}
+            >
+              Z = {Z}
+            </button>
+          ))}
+        </div>
+
+        <button
+          className="binary-toggle active"
+          onClick={() =>
+            onSubmit(
+              scoreClusterGuess(secret, { ageMyr: guessAgeMyr, metallicity: guessZ }),
+            )
+          }
+        >
+          Submit estimate
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -20,7 +20,7 @@ export function IntroScreen({
 
       <p>
         You&apos;re running a stellar assembly line. Your job: choose the mass,
-        metallicity (Z), and CNO content of newborn stars and see how their
+        metallicity (Z), CNO content and spin of newborn stars and see how their
         lives unfold on the HR diagram.
       </p>
 
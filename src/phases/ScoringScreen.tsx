@@ -1,14 +1,46 @@
+import type { ClusterDatingResult } from "../engine/clusterDating"
+import { formatAgeMyr } from "./formatting"
+
 type ScoringScreenProps = {
   onRestart: () => void
+  clusterResult?: ClusterDatingResult // last cluster-dating round, if any
+  onPlayCluster: () => void
 }
 
-export function ScoringScreen({ onRestart }: ScoringScreenProps) {
+export function ScoringScreen({
+  onRestart,
+  clusterResult,
+  onPlayCluster,
+}: ScoringScreenProps) {
   return (
     <section className="panel">
       <h2>Scoring</h2>
-      <p>Final results and reflections will appear here.</p>
+
+      {clusterResult ? (
+        <div className="cluster-score">
+          <p className="cluster-score-total">{clusterResult.score} / 100</p>
+          <p>{clusterResult.verdict}</p>
+          <ul className="summary-list">
+            <li>
+              True age: {formatAgeMyr(clusterResult.truth.ageMyr)} — your estimate:{" "}
+              {formatAgeMyr(clusterResult.guess.ageMyr)} (
+              {clusterResult.ageErrorDex >= 0 ? "+" : ""}
+              {clusterResult.ageErrorDex.toFixed(2)} dex)
+            </li>
+            <li>
+              True metallicity: Z = {clusterResult.truth.metallicity} — your pick: Z ={" "}
+              {clusterResult.guess.metallicity}
+            </li>
+          </ul>
+        </div>
+      ) : (
+        <p>Final results and reflections will appear here.</p>
+      )}
+
       <button onClick={onRestart}>Build another star</button>
+      <button onClick={onPlayCluster}>
+        {clusterResult ? "Date another cluster" : "Try the cluster challenge"}
+      </button>
     </section>
   )
 }
-
@@ -1,9 +1,13 @@
 // src/phases/SimulationScreen.tsx
 import type { StarParams } from "../engine/starEngine"
+import type { BinaryParams } from "../engine/binaryEvolution"
+import type { EvolutionModel } from "../engine/tabulatedEvolution"
 import { SimulationRunner } from "../components/Simulation/SimulationRunner"
 
 type SimulationScreenProps = {
   params: StarParams
+  binary?: BinaryParams   // set in binary mode (params is then the primary)
+  evolutionModel: EvolutionModel
   initialSizePx: number
   initialColor: string
   initialGlow: number
@@ -12,6 +16,8 @@ type SimulationScreenProps = {
 
 export function SimulationScreen({
   params,
+  binary,
+  evolutionModel,
   initialSizePx,
   initialColor,
   initialGlow,
@@ -21,6 +27,8 @@ export function SimulationScreen({
     <main className="app-main">
       <SimulationRunner
         params={params}
+        binary={binary}
+        evolutionModel={evolutionModel}
         initialSizePx={initialSizePx}
         initialColor={initialColor}
         initialGlow={initialGlow}
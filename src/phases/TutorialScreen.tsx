@@ -8,10 +8,11 @@ export function TutorialScreen() {
 
       <h3>1. You choose what your star is made of</h3>
       <p>
-        Every star starts with ingredients. In this game you control three important ones:
+        Every star starts with ingredients. In this game you control four important ones:
         <br />• <strong>Mass</strong> — how big your star is
         <br />• <strong>Metallicity</strong> — the extra elements mixed in besides hydrogen
         <br />• <strong>CNO Fraction</strong> — special ingredients (Carbon, Nitrogen, Oxygen) that make the star burn hotter
+        <br />• <strong>Rotation</strong> — how fast your star spins, as a fraction of the speed that would tear it apart
         <br /><br />
         These choices decide how your star looks, how bright it gets, and how long it lives.
       </p>
@@ -23,6 +24,7 @@ export function TutorialScreen() {
         <br />• Smaller mass → burns slowly → much longer life
         <br />• More metals → slightly cooler and redder
         <br />• More CNO → hotter core → brighter star
+        <br />• Faster spin → stirs fresh fuel into the core → lives longer, shines brighter, and bulges at the equator
       </p>
 
       <h3>3. We place your star on the HR Diagram</h3>
@@ -0,0 +1,10 @@
+// src/phases/formatting.ts
+// Display formats shared by the screens.
+
+/**
+ * An age in Myr as "512 Myr" or "4.57 Gyr", to three significant figures.
+ */
+export function formatAgeMyr(t: number): string {
+  if (t >= 1000) return `${(t / 1000).toPrecision(3)} Gyr`
+  return `${t.toPrecision(3)} Myr`
+}